@@ -3,20 +3,69 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Upload, Settings, Calculator, Maximize, MousePointer2, Check, Loader2, AlertCircle, MapPin, PenTool, Undo2, Trash2, CheckSquare, Grid, FileText, Ruler } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Upload, Settings, Calculator, Maximize, MousePointer2, Check, Loader2, AlertCircle, MapPin, PenTool, Undo2, Trash2, CheckSquare, Grid, FileText, Ruler, DoorOpen, Move, RotateCw, Copy, Plus, Pencil, Pentagon, Square, Circle } from 'lucide-react';
 import { analyzeFloorPlan, Point } from './services/geminiService';
-import LayoutCanvas, { LayoutCanvasHandle } from './components/LayoutCanvas';
+import LayoutCanvas, { LayoutCanvasHandle, CanvasMode, HoleTool } from './components/LayoutCanvas';
 import EstimateModal from './components/EstimateModal';
-import { generateLayout, PlacedItem } from './utils/layoutEngine';
-import { snapToRectilinear } from './utils/geometry';
-import { FURNITURE_TYPES, PATTERN_CONFIG, LayoutPattern, FurnitureSet } from './constants';
+import { PlacedItem, PackingReport, HeadcountResult, BudgetResult, LayoutZone, summarizeZones, summarizeLayout, getEstimateLines, getWallFurnitureQuantity, getStockLimitHits, countSeats, validateLayout, rotateItem, createItemAt } from './utils/layoutEngine';
+import { snapToRectilinear, simplifyClosedPath, PolygonEdit, remapEdgePosition } from './utils/geometry';
+import { startLayoutJob, startEgressCheck, LayoutJob, EgressJob, LayoutProgress } from './services/layoutService';
+import { loadFromStorage, loadListFromStorage, saveListToStorage, saveToStorage, STORAGE_KEYS } from './services/storage';
+import PresetEditor from './components/PresetEditor';
+import ZoneEditor from './components/ZoneEditor';
+import EgressSettings from './components/EgressSettings';
+import FurnitureCatalogEditor from './components/FurnitureCatalogEditor';
+import ChairModelEditor from './components/ChairModelEditor';
+import WallFurnitureEditor from './components/WallFurnitureEditor';
+import SnapToolbar from './components/SnapToolbar';
+import FreehandToolbar from './components/FreehandToolbar';
+import HistoryPanel from './components/HistoryPanel';
+import { HistoryState, createHistory, recordCommand, travel, dropCommands } from './utils/history';
+import { isFurnitureSetValid, validateWallFurniture, withChairModel } from './utils/furnitureCatalog';
+import { supportsArrangement } from './utils/furnitureShape';
+import { EgressReport, getExitSegment, getDoorSwingZone, remapExits, RoomExit } from './utils/egress';
+import { FURNITURE_TYPES, CHAIR_MODELS, DEFAULT_LAYOUT_PRESETS, LayoutPattern, LayoutPreset, FurnitureSet, ChairModel, WallFurniture, WALL_FURNITURE, ARRANGEMENT_CONFIG, LayoutArrangement, PACKING_CONFIG, PackingStrategy, ZONE_COLORS, EgressRules, DEFAULT_EGRESS_RULES, DEFAULT_EXIT_WIDTH, ACCESSIBLE_SEAT, SnapSettings, DEFAULT_SNAP_SETTINGS, withTax } from './constants';
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Set worker source for PDF.js
 // Use unpkg as it mirrors npm releases directly and is more likely to have the latest version immediately
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
 
+// mm a duplicated item is shifted right and down from the original
+const DUPLICATE_OFFSET = 500;
+
+// ms after the last edit before the egress check is rerun
+const EGRESS_CHECK_DELAY = 300;
+
+// The state undo / redo restores: the room, the scale, the catalogs, the layout and snap
+// settings, and hand edits of a generated result (with the tab they were made in)
+interface ProjectState {
+  polygon: Point[];
+  holes: Point[][];
+  zones: LayoutZone[];
+  exits: RoomExit[];
+  frontEdgeIndex: number | null;
+  scaleLine: { start: Point; end: Point } | null;
+  realLength: number;
+  scale: number;
+  isScaleSet: boolean;
+  presets: LayoutPreset[];
+  egressRules: EgressRules;
+  furnitureTypes: FurnitureSet[];
+  chairModels: ChairModel[];
+  wallFurniture: WallFurniture[];
+  arrangement: LayoutArrangement;
+  frontClearance: number;
+  packing: PackingStrategy;
+  headcountTarget: number;
+  budget: number;
+  accessibleCount: number;
+  accessibleRouteWidth: number;
+  snapSettings: SnapSettings;
+  resultItems: { tab: string; items: PlacedItem[] } | null;
+}
+
 function App() {
   const [image, setImage] = useState<string | null>(null);
   const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
@@ -24,11 +73,17 @@ function App() {
   const [isConvertingPdf, setIsConvertingPdf] = useState(false);
   const [polygon, setPolygon] = useState<Point[]>([]);
   const [holes, setHoles] = useState<Point[][]>([]);
-  const [mode, setMode] = useState<'view' | 'edit_polygon' | 'set_scale' | 'draw_polygon' | 'draw_hole'>('view');
+  const [zones, setZones] = useState<LayoutZone[]>([]);
+  const [exits, setExits] = useState<RoomExit[]>([]);
+  const [mode, setMode] = useState<CanvasMode>('view');
   
   // Drawing state
   const [tempPoints, setTempPoints] = useState<Point[]>([]);
   const [drawTab, setDrawTab] = useState<'point' | 'freehand'>('point');
+  const [freehandTolerance, setFreehandTolerance] = useState<number>(100); // mm a traced edge may wander
+  const [freehandOrthogonal, setFreehandOrthogonal] = useState(true);
+  const [holeTool, setHoleTool] = useState<HoleTool>('polygon');
+  const [selectedHoleIndex, setSelectedHoleIndex] = useState<number | null>(null); // While editing the shape
 
   // Scale state
   const [scaleLine, setScaleLine] = useState<{ start: Point; end: Point } | null>(null);
@@ -38,32 +93,182 @@ function App() {
   
   // Layout state
   const [pattern, setPattern] = useState<LayoutPattern>('standard');
+  const [arrangement, setArrangement] = useState<LayoutArrangement>('single');
+  const [frontEdgeIndex, setFrontEdgeIndex] = useState<number | null>(null); // Classroom front wall
+  const [frontClearance, setFrontClearance] = useState<number>(1500); // mm
+  const [packing, setPacking] = useState<PackingStrategy>('seats');
+  const [presets, setPresets] = useState<LayoutPreset[]>(() => loadListFromStorage(STORAGE_KEYS.layoutPresets, DEFAULT_LAYOUT_PRESETS));
+  const [headcountTarget, setHeadcountTarget] = useState<number>(0); // 0 = off
+  const [budget, setBudget] = useState<number>(0); // JPY incl. tax, 0 = off
+  const [accessibleCount, setAccessibleCount] = useState<number>(0); // Wheelchair workstations, 0 = off
+  const [accessibleRouteWidth, setAccessibleRouteWidth] = useState<number>(ACCESSIBLE_SEAT.routeWidth); // mm
+  const [egressRules, setEgressRules] = useState<EgressRules>(
+    () => ({ ...DEFAULT_EGRESS_RULES, ...loadFromStorage(STORAGE_KEYS.egressRules, DEFAULT_EGRESS_RULES) })
+  );
   const [items, setItems] = useState<PlacedItem[]>([]);
-  const [furnitureTypes, setFurnitureTypes] = useState<FurnitureSet[]>(FURNITURE_TYPES);
+  const [furnitureTypes, setFurnitureTypes] = useState<FurnitureSet[]>(() => loadListFromStorage(STORAGE_KEYS.furnitureCatalog, FURNITURE_TYPES));
+  const [chairModels, setChairModels] = useState<ChairModel[]>(() => loadListFromStorage(STORAGE_KEYS.chairModels, CHAIR_MODELS));
+  const [wallFurniture, setWallFurniture] = useState<WallFurniture[]>(() => loadListFromStorage(STORAGE_KEYS.wallFurniture, WALL_FURNITURE));
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(
+    () => ({ ...DEFAULT_SNAP_SETTINGS, ...loadFromStorage(STORAGE_KEYS.snapSettings, DEFAULT_SNAP_SETTINGS) })
+  );
   const [isLayoutGenerated, setIsLayoutGenerated] = useState(false);
   const [layoutResults, setLayoutResults] = useState<any>(null);
   const [selectedResultTab, setSelectedResultTab] = useState<string>('standard');
   const [isEstimateOpen, setIsEstimateOpen] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<LayoutProgress | null>(null);
+  const layoutJobRef = useRef<LayoutJob | null>(null);
   
   const canvasRef = useRef<LayoutCanvasHandle>(null);
   
   // Stats
   const [totalCost, setTotalCost] = useState(0);
-  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [packingReport, setPackingReport] = useState<PackingReport | null>(null);
+  const [headcountResult, setHeadcountResult] = useState<HeadcountResult | null>(null);
+  const [budgetResult, setBudgetResult] = useState<BudgetResult | null>(null);
+  // Manual editing of the shown result
+  const [isEditingItems, setIsEditingItems] = useState(false);
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [dragPreview, setDragPreview] = useState<PlacedItem | null>(null); // Dragged item, not yet committed
+  const [newItemTypeId, setNewItemTypeId] = useState<string>('');
+  // Undo / redo
+  const [history, setHistory] = useState<HistoryState<ProjectState>>(createHistory);
 
-  // Keyboard shortcuts
+  // Persist layout presets between sessions
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
-        if (mode === 'draw_polygon' || mode === 'draw_hole') {
-          e.preventDefault();
-          handleUndo();
-        }
-      }
-    };
+    saveListToStorage(STORAGE_KEYS.layoutPresets, presets, DEFAULT_LAYOUT_PRESETS);
+  }, [presets]);
+
+  useEffect(() => {
+    saveToStorage(STORAGE_KEYS.egressRules, egressRules);
+  }, [egressRules]);
+
+  useEffect(() => {
+    saveListToStorage(STORAGE_KEYS.furnitureCatalog, furnitureTypes, FURNITURE_TYPES);
+  }, [furnitureTypes]);
+
+  useEffect(() => {
+    saveListToStorage(STORAGE_KEYS.chairModels, chairModels, CHAIR_MODELS);
+  }, [chairModels]);
+
+  useEffect(() => {
+    saveListToStorage(STORAGE_KEYS.wallFurniture, wallFurniture, WALL_FURNITURE);
+  }, [wallFurniture]);
+
+  useEffect(() => {
+    saveToStorage(STORAGE_KEYS.snapSettings, snapSettings);
+  }, [snapSettings]);
+
+  // Keyboard shortcuts. The listener calls the handler from the latest render, so undo and the
+  // item shortcuts always see the current state
+  const keyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyDownRef.current(e);
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [mode, tempPoints]);
+  }, []);
+  keyDownRef.current = (e: KeyboardEvent) => {
+    // Fields keep their own undo
+    const target = e.target as HTMLElement;
+    const isTyping = target.closest('input, select, textarea') !== null;
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && !isTyping && (key === 'z' || key === 'y')) {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) {
+        handleHistoryTravel(1);
+      } else if ((mode === 'draw_polygon' || mode === 'draw_hole' || mode === 'draw_zone') && tempPoints.length > 0) {
+        handleUndo(); // The point just placed comes off first
+      } else {
+        handleHistoryTravel(-1);
+      }
+      return;
+    }
+
+    // Removing the selected hole while editing the shape (not while typing in a field)
+    if (mode === 'edit_polygon' && selectedHoleIndex !== null && !target.closest('input, select, textarea')) {
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleDeleteHole();
+      } else if (e.key === 'Escape') {
+        setSelectedHoleIndex(null);
+      }
+      return;
+    }
+
+    // Editing the selected item of a result
+    if (!isEditingItems || !selectedItemId || target.closest('input, select, textarea')) return;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      handleDeleteItem();
+    } else if (e.key === 'r' || e.key === 'R') {
+      handleRotateItem();
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 'd') {
+      e.preventDefault();
+      handleDuplicateItem();
+    } else if (e.key === 'Escape') {
+      setSelectedItemId(null);
+    }
+  };
+
+  // Hole selection only applies while editing the shape
+  useEffect(() => {
+    if (mode !== 'edit_polygon') setSelectedHoleIndex(null);
+  }, [mode]);
+
+  // Undo / redo: every edit of the project goes through `commit`, which records what it replaced
+  const project: ProjectState = {
+    polygon, holes, zones, exits, frontEdgeIndex, scaleLine, realLength, scale, isScaleSet,
+    presets, egressRules, furnitureTypes, chairModels, wallFurniture,
+    arrangement, frontClearance, packing, headcountTarget, budget, accessibleCount, accessibleRouteWidth, snapSettings,
+    resultItems: { tab: selectedResultTab, items }
+  };
+
+  const projectSetters: { [K in keyof ProjectState]: (value: ProjectState[K]) => void } = {
+    polygon: setPolygon,
+    holes: setHoles,
+    zones: setZones,
+    exits: setExits,
+    frontEdgeIndex: setFrontEdgeIndex,
+    scaleLine: setScaleLine,
+    realLength: setRealLength,
+    scale: setScale,
+    isScaleSet: setIsScaleSet,
+    presets: setPresets,
+    egressRules: setEgressRules,
+    furnitureTypes: setFurnitureTypes,
+    chairModels: setChairModels,
+    wallFurniture: setWallFurniture,
+    arrangement: setArrangement,
+    frontClearance: setFrontClearance,
+    packing: setPacking,
+    headcountTarget: setHeadcountTarget,
+    budget: setBudget,
+    accessibleCount: setAccessibleCount,
+    accessibleRouteWidth: setAccessibleRouteWidth,
+    snapSettings: setSnapSettings,
+    resultItems: (value) => value && showResultItems(value.tab, value.items)
+  };
+
+  const applyProject = (patch: Partial<ProjectState>) => {
+    (Object.keys(patch) as (keyof ProjectState)[]).forEach(key => {
+      (projectSetters[key] as (value: unknown) => void)(patch[key]);
+    });
+  };
+
+  const commit = (label: string, patch: Partial<ProjectState>) => {
+    const before = Object.fromEntries(
+      Object.keys(patch).map(key => [key, project[key as keyof ProjectState]])
+    ) as Partial<ProjectState>;
+    setHistory(prev => recordCommand(prev, label, before, patch));
+    applyProject(patch);
+  };
+
+  const handleHistoryTravel = (steps: number) => {
+    const result = travel(history, steps);
+    if (!result) return;
+    setHistory(result.history);
+    applyProject(result.patch);
+  };
 
   // Drawing Actions
   const handleUndo = () => {
@@ -74,15 +279,35 @@ function App() {
     setTempPoints([]);
   };
 
-  const handleFinish = () => {
-    if (tempPoints.length >= 3) {
+  // Closes the outline being drawn (clicked points or a simplified freehand stroke)
+  const finishShape = (points: Point[]) => {
+    if (points.length >= 3) {
       if (mode === 'draw_polygon') {
-        setPolygon(tempPoints);
+        commit('範囲を指定', { polygon: points });
         setMode('view');
       } else if (mode === 'draw_hole') {
-        setHoles([...holes, tempPoints]);
+        commit('除外エリアを追加', { holes: [...holes, points] });
         // Do NOT switch back to view mode, allow adding more holes
         // setMode('view'); 
+      } else if (mode === 'draw_zone') {
+        const name = window.prompt("ゾーン名を入力してください:", `ゾーン${zones.length + 1}`);
+        if (name === null) {
+          setTempPoints(points); // Keep the outline so the user can retry
+          return;
+        }
+        commit('ゾーンを追加', { zones: [
+          ...zones,
+          {
+            id: crypto.randomUUID(),
+            name: name || `ゾーン${zones.length + 1}`,
+            polygon: points,
+            pattern: presets.find(p => p.id === 'standard')?.id ?? presets[0]?.id ?? 'standard',
+            furnitureTypeIds: furnitureTypes.filter(t => t.enabled !== false).map(t => t.id),
+            orientation: 'auto',
+            color: ZONE_COLORS[zones.length % ZONE_COLORS.length]
+          }
+        ] });
+        // Stay in zone mode so several zones can be drawn in a row
       }
       setTempPoints([]);
     } else {
@@ -90,64 +315,280 @@ function App() {
     }
   };
 
+  const handleFinish = () => finishShape(tempPoints);
+
+  // Outlines that can be traced freehand (rectangles and circles always take two clicks)
+  const canTrace = mode === 'draw_polygon' || mode === 'draw_zone' || (mode === 'draw_hole' && holeTool === 'polygon');
+  const isTracing = canTrace && drawTab === 'freehand';
+
+  // A traced stroke becomes a polygon with the corners that stray more than the tolerance
+  const handleFreehandComplete = (stroke: Point[]) => {
+    const points = simplifyClosedPath(stroke, freehandTolerance * scale, freehandOrthogonal);
+    if (points.length < 3) {
+      alert("なぞった線から範囲を作れませんでした。もう少し大きく囲ってください。");
+      return;
+    }
+    finishShape(points);
+  };
+
+  const handleDeleteHole = () => {
+    if (selectedHoleIndex === null) return;
+    commit('除外エリアを削除', { holes: holes.filter((_, i) => i !== selectedHoleIndex) });
+    setSelectedHoleIndex(null);
+  };
+
+  // Exits and the front wall are stored by edge index, so an inserted or removed vertex moves
+  // them to the matching edge of the new outline in the same command
+  const handlePolygonEdit = (next: Point[], edit?: PolygonEdit) => {
+    if (!edit) {
+      commit('範囲を編集', { polygon: next });
+      return;
+    }
+    const hasFront = frontEdgeIndex !== null && frontEdgeIndex < polygon.length;
+    commit(edit.kind === 'insert' ? '頂点を追加' : '頂点を削除', {
+      polygon: next,
+      exits: remapExits(exits, polygon, next, edit),
+      frontEdgeIndex: hasFront ? remapEdgePosition(frontEdgeIndex!, 0.5, polygon, next, edit).edgeIndex : null
+    });
+  };
+
   // Rectify Polygon (Snap to Grid)
   const handleRectify = () => {
     if (polygon.length < 3) return;
     const rectified = snapToRectilinear(polygon, 20); // 20px threshold
-    setPolygon(rectified);
+    commit('直角補正', { polygon: rectified });
   };
 
-  // Handle Generate Layout
-  const handleGenerateLayout = () => {
+  // Handle Generate Layout (runs in a Web Worker, see services/layoutService.ts)
+  // Door swing arcs, kept free of furniture like holes
+  const doorZones = useMemo(
+    () => exits
+      .filter(e => e.edgeIndex < polygon.length)
+      .map(e => getDoorSwingZone(e, polygon, scale))
+      .filter((zone): zone is Point[] => zone !== null),
+    [exits, polygon, scale]
+  );
+
+  const handleGenerateLayout = async () => {
     if (polygon.length < 3 || !scale) {
       alert("範囲指定と縮尺設定を完了してください。");
       return;
     }
     
-    const activeTypes = furnitureTypes.filter(t => t.enabled !== false);
-    const patterns: LayoutPattern[] = ['cramped', 'standard', 'spacious'];
-    const newResults: any = {};
+    // Types with invalid dimensions stay in the catalog but are never placed
+    const validTypes = furnitureTypes
+      .map(t => withChairModel(t, chairModels))
+      .filter(t => isFurnitureSetValid(t, t.chair));
+    const activeTypes = validTypes.filter(t => t.enabled !== false);
+    if (activeTypes.length === 0 && zones.length === 0) {
+      alert("使用できる家具がありません。家具の設定を確認してください。");
+      return;
+    }
+    const activePresets = presets.filter(p => p.enabled);
+    if (activePresets.length === 0) {
+      alert("レイアウトパターンを1つ以上有効にしてください。");
+      return;
+    }
+    const patterns: LayoutPattern[] = activePresets.map(p => p.id);
+
+    const hasFront = frontEdgeIndex !== null && frontEdgeIndex < polygon.length;
+    if (arrangement === 'classroom' && !hasFront) {
+      alert("教室型では前方の壁を選択してください。");
+      return;
+    }
+    const front = hasFront
+      ? {
+          start: polygon[frontEdgeIndex!],
+          end: polygon[(frontEdgeIndex! + 1) % polygon.length],
+          clearance: frontClearance
+        }
+      : undefined;
+
+    const validExits = exits.filter(e => e.edgeIndex < polygon.length);
+    if (accessibleCount > 0 && validExits.length === 0) {
+      alert("車椅子席を配置するには、出口・扉を1つ以上配置してください。");
+      return;
+    }
+    const exitSegments = validExits.map(e => ({ ...getExitSegment(e, polygon, scale), width: e.width }));
+    const accessibility = accessibleCount > 0
+      ? { count: accessibleCount, routeWidth: accessibleRouteWidth, exits: exitSegments }
+      : undefined;
+    // Wall units keep a corridor's width free in front of them
+    const activeWallFurniture = wallFurniture.filter(w => w.enabled !== false && validateWallFurniture(w).length === 0);
+    const wallOptions = activeWallFurniture.length > 0
+      ? { items: activeWallFurniture, passage: egressRules.minCorridorWidth, exits: exitSegments }
+      : undefined;
 
-    patterns.forEach(p => {
-      const config = PATTERN_CONFIG[p];
-      const generatedItems = generateLayout(
+    const job = startLayoutJob(
+      {
         polygon,
-        holes,
+        holes: [...holes, ...doorZones],
         scale,
-        p,
-        activeTypes,
-        config.aisleGap
-      );
-
-      let cost = 0;
-      const counts: Record<string, number> = {};
-      generatedItems.forEach(item => {
-        cost += item.type.unitPrice;
-        counts[item.type.name] = (counts[item.type.name] || 0) + 1;
-      });
-
-      newResults[p] = {
+        // Zones pick their own types, so send the full catalog; patterns skip disabled ones
+        furnitureTypes: zones.length > 0 ? validTypes : activeTypes,
+        patterns: activePresets.map(p => ({
+          pattern: p.id,
+          aisleGap: p.aisleGap,
+          sideGap: p.sideGap,
+          wallClearance: p.wallClearance
+        })),
+        options: { arrangement, packing, front, accessibility, wallFurniture: wallOptions },
+        headcountTarget: headcountTarget > 0 ? headcountTarget : undefined,
+        budget: budget > 0 ? budget : undefined,
+        zones: zones.map(zone => {
+          const preset = presets.find(p => p.id === zone.pattern) ?? activePresets[0];
+          return {
+            zone,
+            spacing: { aisleGap: preset.aisleGap, sideGap: preset.sideGap, wallClearance: preset.wallClearance }
+          };
+        })
+      },
+      setGenerationProgress
+    );
+    layoutJobRef.current = job;
+    setGenerationProgress({ step: patterns[0], completed: 0, total: patterns.length });
+
+    let generated: Awaited<typeof job.promise>;
+    try {
+      generated = await job.promise;
+    } catch (error) {
+      console.error("Layout generation failed", error);
+      alert("レイアウトの生成に失敗しました。");
+      generated = null;
+    } finally {
+      if (layoutJobRef.current === job) layoutJobRef.current = null;
+      setGenerationProgress(null);
+    }
+    // Cancelled (or failed)
+    if (!generated) return;
+
+    const summarize = (generatedItems: PlacedItem[], label: string, aisleGap: number, report: PackingReport | null) => {
+      return {
         items: generatedItems,
-        cost,
-        counts
+        cost: summarizeLayout(generatedItems).cost,
+        report,
+        label,
+        aisleGap
       };
+    };
+
+    const newResults: any = {};
+
+    activePresets.forEach(p => {
+      const { items: generatedItems, report } = generated.patterns[p.id]!;
+      newResults[p.id] = summarize(generatedItems, p.label, p.aisleGap, report);
     });
 
+    const headcount = generated.headcount ?? null;
+    if (headcount) {
+      newResults['headcount'] = summarize(headcount.items, `目標${headcount.target}席`, headcount.aisleGap, null);
+    }
+
+    const budgetSearch = generated.budget ?? null;
+    if (budgetSearch) {
+      newResults['budget'] = summarize(budgetSearch.items, '予算内', budgetSearch.aisleGap, null);
+    }
+
+    if (generated.zones) {
+      newResults['zones'] = summarize(generated.zones, 'ゾーン別', 0, null);
+    }
+
     setLayoutResults(newResults);
+    setHistory(prev => dropCommands(prev, 'resultItems')); // Edits of the previous results
+    setHeadcountResult(headcount);
+    setBudgetResult(budgetSearch);
     
-    // Set initial view to standard
-    setItems(newResults['standard'].items);
-    setTotalCost(newResults['standard'].cost);
-    setCounts(newResults['standard'].counts);
-    setSelectedResultTab('standard');
+    // Set initial view to a requested search result, otherwise standard (or the first preset)
+    const defaultTab = patterns.includes('standard') ? 'standard' : patterns[0];
+    selectResult(
+      headcount ? 'headcount' : budgetSearch ? 'budget' : generated.zones ? 'zones' : defaultTab,
+      newResults
+    );
     
     setIsLayoutGenerated(true);
   };
 
-  // Reset layout when polygon or scale changes
+  const selectResult = (key: string, results: any = layoutResults) => {
+    setSelectedResultTab(key);
+    setSelectedItemId(null);
+    if (results?.[key]) {
+      setItems(results[key].items);
+      setTotalCost(results[key].cost);
+      setPackingReport(results[key].report);
+    }
+  };
+
+  // Manual edits replace the items of a tab, so switching tabs keeps them; undoing one switches
+  // back to the tab it was made in
+  const showResultItems = (tab: string, next: PlacedItem[]) => {
+    const cost = summarizeLayout(next).cost;
+    if (tab !== selectedResultTab) {
+      setSelectedResultTab(tab);
+      setPackingReport(layoutResults?.[tab]?.report ?? null);
+    }
+    setItems(next);
+    setTotalCost(cost);
+    setLayoutResults((prev: any) => prev?.[tab]
+      ? { ...prev, [tab]: { ...prev[tab], items: next, cost } }
+      : prev);
+  };
+
+  const applyItemEdit = (label: string, next: PlacedItem[]) => {
+    commit(label, { resultItems: { tab: selectedResultTab, items: next } });
+  };
+
+  const updateSelectedItem = (label: string, update: (item: PlacedItem) => PlacedItem) => {
+    applyItemEdit(label, items.map(item => item.id === selectedItemId ? update(item) : item));
+  };
+
+  const handleItemDragEnd = (id: string, position: Point) => {
+    setDragPreview(null);
+    applyItemEdit('家具を移動', items.map(item => item.id === id ? { ...item, ...position } : item));
+  };
+
+  const handleRotateItem = () => updateSelectedItem('家具を回転', item => rotateItem(item, scale));
+
+  const handleDeleteItem = () => {
+    applyItemEdit('家具を削除', items.filter(item => item.id !== selectedItemId));
+    setSelectedItemId(null);
+  };
+
+  // The copy is offset diagonally so it does not hide the original
+  const handleDuplicateItem = () => {
+    const original = items.find(item => item.id === selectedItemId);
+    if (!original) return;
+    const offset = DUPLICATE_OFFSET * scale;
+    const copy = { ...original, id: crypto.randomUUID(), x: original.x + offset, y: original.y + offset };
+    applyItemEdit('家具を複製', [...items, copy]);
+    setSelectedItemId(copy.id);
+  };
+
+  // New items start in the middle of the room, to be dragged into place
+  const handleAddItem = () => {
+    const type = addableTypes.find(t => t.id === newItemTypeId) ?? addableTypes[0];
+    if (!type || polygon.length === 0) return;
+    const center = {
+      x: polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length,
+      y: polygon.reduce((sum, p) => sum + p.y, 0) / polygon.length
+    };
+    const itemArrangement = type.category !== 'wall' && supportsArrangement(type, arrangement) ? arrangement : 'single';
+    const item = createItemAt(type, center, scale, itemArrangement);
+    applyItemEdit('家具を追加', [...items, item]);
+    setSelectedItemId(item.id);
+  };
+
+  const handleCancelGenerate = () => {
+    layoutJobRef.current?.cancel();
+  };
+
+  // Stop a running job when the app unmounts
+  useEffect(() => () => layoutJobRef.current?.cancel(), []);
+
+  // Reset layout when polygon or scale changes; hand edits of the old result can't be undone
   useEffect(() => {
     setIsLayoutGenerated(false);
     setItems([]);
+    setHistory(prev => dropCommands(prev, 'resultItems'));
   }, [polygon, scale]);
 
   // Handle Image Upload
@@ -201,6 +642,7 @@ function App() {
       // Default polygon (box) - but we want user to draw it now
       setPolygon([]);
       setTempPoints([]);
+      setHistory(createHistory()); // A new plan starts a new history
       setMode('draw_polygon'); // Auto-start drawing
     };
     img.src = dataUrl;
@@ -217,7 +659,7 @@ function App() {
         x: (p.x / 1000) * imageSize.width,
         y: (p.y / 1000) * imageSize.height
       }));
-      setPolygon(pixelCorners);
+      commit('AIで範囲を検出', { polygon: pixelCorners });
       setMode('view');
     } catch (error) {
       console.error("Analysis failed", error);
@@ -236,8 +678,7 @@ function App() {
     
     // Scale = pixels / mm
     const newScale = pixelDistance / realLength;
-    setScale(newScale);
-    setIsScaleSet(true);
+    commit('縮尺を設定', { scale: newScale, isScaleSet: true });
     setMode('view');
   };
 
@@ -248,26 +689,12 @@ function App() {
       const lengthMm = Number(input);
       if (!isNaN(lengthMm) && lengthMm > 0) {
         const newScale = lengthPx / lengthMm;
-        setScale(newScale);
+        commit('辺の長さから縮尺を設定', { scale: newScale });
         // Don't exit mode immediately, let user verify
       }
     }
   };
 
-  // Update Unit Price
-  const handlePriceChange = (id: string, price: number) => {
-    setFurnitureTypes(prev => prev.map(t => 
-      t.id === id ? { ...t, unitPrice: price } : t
-    ));
-  };
-
-  // Toggle Furniture Type
-  const handleToggleType = (id: string) => {
-    setFurnitureTypes(prev => prev.map(t => 
-      t.id === id ? { ...t, enabled: !t.enabled } : t
-    ));
-  };
-
   // Calculate Polygon Area (Shoelace Formula)
   const calculatePolygonArea = (poly: Point[], currentScale: number) => {
     if (poly.length < 3) return 0;
@@ -287,6 +714,100 @@ function App() {
 
   const currentArea = calculatePolygonArea(polygon, scale);
 
+  // The shown items with the one being dragged at its current position
+  const shownItems = useMemo(
+    () => dragPreview ? items.map(item => item.id === dragPreview.id ? dragPreview : item) : items,
+    [items, dragPreview]
+  );
+
+  // The search panels follow manual edits of their plan rather than the numbers it was found with
+  const shownStats = useMemo(() => summarizeLayout(shownItems), [shownItems]);
+  const shownShortfall = headcountResult ? Math.max(0, headcountResult.target - shownStats.seats) : 0;
+  const shownTotalWithTax = withTax(shownStats.cost);
+
+  // Items that leave the room, overlap a hole, block a door or overlap each other
+  // (door swings are checked like holes after the real ones). Follows a drag live.
+  const violations = useMemo(
+    () => validateLayout(shownItems, polygon, [...holes, ...doorZones], scale),
+    [shownItems, polygon, holes, doorZones, scale]
+  );
+
+  // Walking routes from every seat to the nearest exit (null until exits are placed). Checked in
+  // a worker once edits pause; the previous report stays up until the new one is in
+  const [egressReport, setEgressReport] = useState<EgressReport | null>(null);
+  useEffect(() => {
+    if (!isLayoutGenerated) {
+      setEgressReport(null);
+      return;
+    }
+    let job: EgressJob | null = null;
+    let active = true;
+    const timer = window.setTimeout(() => {
+      job = startEgressCheck({ items, polygon, holes, exits, scale, rules: egressRules });
+      job.promise
+        .then(report => { if (active) setEgressReport(report); })
+        .catch(error => console.error("Egress check failed", error));
+    }, EGRESS_CHECK_DELAY);
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [isLayoutGenerated, items, polygon, holes, exits, scale, egressRules]);
+  const flaggedItemIds = useMemo(
+    () => [
+      ...violations.flatMap(v => v.otherItemId ? [v.itemId, v.otherItemId] : [v.itemId]),
+      ...(egressReport?.violations.map(v => v.itemId) ?? [])
+    ],
+    [violations, egressReport]
+  );
+  const egressPaths = useMemo(() => {
+    if (!egressReport) return [];
+    return [
+      { points: egressReport.longestPath, flagged: false },
+      ...egressReport.violations.filter(v => v.path.length > 0).map(v => ({ points: v.path, flagged: true }))
+    ];
+  }, [egressReport]);
+
+  const accessibleSeats = items.filter(item => item.accessible).length;
+
+  // Furniture types the shown layout used up; ordering more may add seats
+  const stockHits = useMemo(
+    () => getStockLimitHits(items, furnitureTypes, arrangement),
+    [items, furnitureTypes, arrangement]
+  );
+  // Seats the same preset would gain without the limits (only known for preset results)
+  const unlimitedGain = packingReport?.unlimited ? packingReport.unlimited.seats - countSeats(items) : null;
+
+  // Wall furniture the shown layout needs but had no free wall for
+  const wallShortfalls = useMemo(() => {
+    const seats = countSeats(items);
+    return wallFurniture
+      .filter(w => w.enabled !== false && validateWallFurniture(w).length === 0)
+      .map(w => ({
+        id: w.id,
+        name: w.name,
+        required: getWallFurnitureQuantity(w, seats),
+        placed: items.filter(item => item.type.category === 'wall' && item.type.id === w.id).length
+      }))
+      .filter(s => s.placed < s.required);
+  }, [items, wallFurniture]);
+
+  // Per-zone totals for the zoned result (empty for uniform layouts)
+  const zoneSummaries = useMemo(
+    () => items.some(item => item.zoneId) ? summarizeZones(items, zones) : [],
+    [items, zones]
+  );
+
+  // Catalog and wall furniture that can be added by hand to a result
+  const addableTypes = useMemo(() => [
+    ...furnitureTypes.map(t => withChairModel(t, chairModels)).filter(t => isFurnitureSetValid(t, t.chair)),
+    ...wallFurniture.filter(w => validateWallFurniture(w).length === 0)
+  ], [furnitureTypes, chairModels, wallFurniture]);
+
+  // Tables and chairs of the shown layout, listed separately as on the estimate
+  const estimateLines = useMemo(() => getEstimateLines(items), [items]);
+
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900 font-sans">
       <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between sticky top-0 z-10">
@@ -299,6 +820,12 @@ function App() {
           </h1>
         </div>
         <div className="flex items-center gap-4">
+          <HistoryPanel
+            history={history}
+            onUndo={() => handleHistoryTravel(-1)}
+            onRedo={() => handleHistoryTravel(1)}
+            onTravel={handleHistoryTravel}
+          />
           <div className="text-sm text-gray-500">
             {imageSize ? `${imageSize.width} x ${imageSize.height} px` : '画像未選択'}
           </div>
@@ -315,8 +842,10 @@ function App() {
                 onClick={() => {
                   setIsLayoutGenerated(false);
                   setItems([]); // Clear generated items
-                  setCounts({});
                   setTotalCost(0);
+                  setHistory(prev => dropCommands(prev, 'resultItems'));
+                  setIsEditingItems(false);
+                  setSelectedItemId(null);
                 }}
                 className="py-2 px-4 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium flex items-center gap-2"
               >
@@ -326,25 +855,18 @@ function App() {
             </div>
 
             {/* Pattern Tabs */}
-            <div className="flex gap-2 border-b border-gray-200 pb-1">
-              {(['cramped', 'standard', 'spacious'] as LayoutPattern[]).map((p) => (
+            <div className="flex flex-wrap gap-2 border-b border-gray-200 pb-1">
+              {Object.entries(layoutResults ?? {}).map(([key, result]: [string, any]) => (
                 <button
-                  key={p}
-                  onClick={() => {
-                    setSelectedResultTab(p);
-                    if (layoutResults[p]) {
-                      setItems(layoutResults[p]!.items);
-                      setTotalCost(layoutResults[p]!.cost);
-                      setCounts(layoutResults[p]!.counts);
-                    }
-                  }}
+                  key={key}
+                  onClick={() => selectResult(key)}
                   className={`px-6 py-3 rounded-t-lg font-medium text-sm transition-colors ${
-                    selectedResultTab === p
+                    selectedResultTab === key
                       ? 'bg-white border-x border-t border-gray-200 text-indigo-600 -mb-px'
                       : 'bg-gray-50 text-gray-500 hover:text-gray-700'
                   }`}
                 >
-                  {PATTERN_CONFIG[p].label} ({PATTERN_CONFIG[p].aisleGap}mm)
+                  {result.label}{key !== 'zones' && ` (${result.aisleGap}mm)`}
                 </button>
               ))}
             </div>
@@ -352,15 +874,86 @@ function App() {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Left: Canvas (Clean View) */}
               <div className="lg:col-span-2 bg-white rounded-b-2xl rounded-tr-2xl shadow-sm border border-gray-100 overflow-hidden p-4">
+                <div className="mb-3 flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setIsEditingItems(!isEditingItems);
+                      setSelectedItemId(null);
+                    }}
+                    className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                      isEditingItems ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    <Move className="w-4 h-4" />
+                    {isEditingItems ? '編集を終了' : '家具を編集'}
+                  </button>
+                  {isEditingItems && (
+                    <>
+                      <select
+                        value={newItemTypeId}
+                        onChange={(e) => setNewItemTypeId(e.target.value)}
+                        className="text-sm bg-white border border-gray-200 rounded-lg px-2 py-1.5 max-w-[14rem]"
+                      >
+                        {addableTypes.map(t => (
+                          <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleAddItem}
+                        disabled={addableTypes.length === 0}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50"
+                      >
+                        <Plus className="w-4 h-4" />
+                        追加
+                      </button>
+                      <div className="w-px h-6 bg-gray-200 mx-1" />
+                      <button
+                        onClick={handleRotateItem}
+                        disabled={!selectedItemId}
+                        className="p-1.5 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-40"
+                        title="90°回転 (R)"
+                      >
+                        <RotateCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={handleDuplicateItem}
+                        disabled={!selectedItemId}
+                        className="p-1.5 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-40"
+                        title="複製 (Ctrl+D)"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={handleDeleteItem}
+                        disabled={!selectedItemId}
+                        className="p-1.5 text-gray-600 bg-gray-100 hover:bg-red-100 hover:text-red-600 rounded-lg disabled:opacity-40"
+                        title="削除 (Delete)"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                      <span className="text-xs text-gray-400">クリックで選択、ドラッグで移動</span>
+                    </>
+                  )}
+                </div>
                 <LayoutCanvas
                   ref={canvasRef}
                   imageUrl={image || ''}
                   polygon={polygon}
                   holes={holes}
-                  items={items}
+                  items={shownItems}
                   scale={scale}
-                  mode="view" // View mode only
+                  mode={isEditingItems ? 'edit_items' : 'view'}
                   hideGuides={true} // Hide red/blue lines
+                  flaggedItemIds={flaggedItemIds}
+                  exits={exits}
+                  egressPaths={dragPreview ? [] : egressPaths} // Stale while an item is being moved
+                  selectedItemId={selectedItemId}
+                  onItemSelect={setSelectedItemId}
+                  onItemDrag={(id, position) => {
+                    const item = items.find(i => i.id === id);
+                    if (item) setDragPreview({ ...item, ...position });
+                  }}
+                  onItemDragEnd={handleItemDragEnd}
                 />
                 <div className="mt-4 flex justify-end">
                   <button
@@ -378,10 +971,61 @@ function App() {
                 <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
                   <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
                     <Check className="w-5 h-5 text-green-600" />
-                    {PATTERN_CONFIG[selectedResultTab].label}プランの見積もり
+                    {layoutResults?.[selectedResultTab]?.label}プランの見積もり
                   </h2>
                   
                   <div className="space-y-4">
+                    {selectedResultTab === 'headcount' && headcountResult && (
+                      shownShortfall === 0 ? (
+                        <div className="flex items-start gap-2 p-3 bg-green-50 rounded-lg text-xs text-green-800">
+                          <Check className="w-4 h-4 mt-0.5 shrink-0" />
+                          <p>
+                            通路幅 <span className="font-semibold">{headcountResult.aisleGap}mm</span> で
+                            {headcountResult.target}席を確保できます（{shownStats.seats}席）。
+                            {headcountResult.achieved && 'これが目標を満たす最もゆとりのあるレイアウトです。'}
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="flex items-start gap-2 p-3 bg-amber-50 rounded-lg text-xs text-amber-800">
+                          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                          <p>
+                            {headcountResult.achieved
+                              ? `現在${shownStats.seats}席です。`
+                              : `通路幅を最小の${headcountResult.aisleGap}mmにしても最大${headcountResult.seats}席です。`}
+                            目標の{headcountResult.target}席に<span className="font-semibold">{shownShortfall}席不足</span>しています。
+                          </p>
+                        </div>
+                      )
+                    )}
+
+                    {selectedResultTab === 'budget' && budgetResult && !budgetResult.feasible && (
+                      <div className="flex items-start gap-2 p-3 bg-red-50 rounded-lg text-xs text-red-800">
+                        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <p>
+                          予算¥{budgetResult.budget.toLocaleString()}では、必ず必要な壁面家具だけで
+                          <span className="font-semibold">¥{budgetResult.minimumWithTax.toLocaleString()}</span>（税込）かかるため、
+                          予算内のレイアウトを作れません。
+                        </p>
+                      </div>
+                    )}
+
+                    {selectedResultTab === 'budget' && budgetResult?.feasible && (
+                      <div className="p-3 bg-indigo-50 rounded-lg text-xs text-indigo-800 space-y-1">
+                        <div className="flex justify-between">
+                          <span>予算（税込）</span>
+                          <span className="font-mono">¥{budgetResult.budget.toLocaleString()}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>合計（税込）</span>
+                          <span className="font-mono">¥{shownTotalWithTax.toLocaleString()}</span>
+                        </div>
+                        <div className={`flex justify-between font-semibold ${shownTotalWithTax > budgetResult.budget ? 'text-red-600' : ''}`}>
+                          <span>残り予算</span>
+                          <span className="font-mono">¥{(budgetResult.budget - shownTotalWithTax).toLocaleString()}</span>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="p-4 bg-gray-50 rounded-xl">
                       <div className="text-sm text-gray-500 mb-1">概算合計金額</div>
                       <div className="text-3xl font-bold text-gray-900">
@@ -389,12 +1033,160 @@ function App() {
                       </div>
                     </div>
 
+                    <div className="flex justify-between items-center p-4 bg-gray-50 rounded-xl">
+                      <span className="text-sm text-gray-500">
+                        席数（{ARRANGEMENT_CONFIG[arrangement].label}）
+                      </span>
+                      <span className="text-2xl font-bold text-gray-900">{countSeats(items)}席</span>
+                    </div>
+
+                    {(accessibleSeats > 0 || accessibleCount > 0) && (
+                      <div className={`flex justify-between items-center p-3 rounded-lg text-xs ${accessibleSeats < accessibleCount ? 'bg-amber-50 text-amber-800' : 'bg-blue-50 text-blue-800'}`}>
+                        <span>うち車椅子席</span>
+                        <span className="font-mono font-semibold">
+                          {accessibleSeats}席{accessibleSeats < accessibleCount && `（指定${accessibleCount}席のうち${accessibleCount - accessibleSeats}席は配置できませんでした）`}
+                        </span>
+                      </div>
+                    )}
+
+                    {stockHits.length > 0 && (
+                      <div className="p-3 bg-amber-50 rounded-lg text-xs text-amber-800 space-y-1">
+                        <div className="font-medium flex items-center gap-1">
+                          <AlertCircle className="w-3 h-3" />
+                          在庫の上限まで使用した家具があります
+                        </div>
+                        {stockHits.map(hit => (
+                          <div key={hit.type.id} className="flex justify-between">
+                            <span>{hit.type.name}</span>
+                            <span className="font-mono">{hit.used}台 / 在庫{hit.limit}台</span>
+                          </div>
+                        ))}
+                        <div className="pt-1 border-t border-amber-200">
+                          {unlimitedGain === null
+                            ? '追加発注で席数を増やせる可能性があります。'
+                            : unlimitedGain > 0
+                              ? `在庫の制限がなければ${countSeats(items) + unlimitedGain}席（+${unlimitedGain}席）配置できます。追加発注をご検討ください。`
+                              : 'この部屋では在庫を増やしても席数は増えません。'}
+                        </div>
+                      </div>
+                    )}
+
+                    {wallShortfalls.length > 0 && (
+                      <div className="p-3 bg-amber-50 rounded-lg text-xs text-amber-800 space-y-1">
+                        <div className="font-medium flex items-center gap-1">
+                          <AlertCircle className="w-3 h-3" />
+                          壁際に置ききれなかった家具があります
+                        </div>
+                        {wallShortfalls.map(s => (
+                          <div key={s.id} className="flex justify-between">
+                            <span>{s.name}</span>
+                            <span className="font-mono">{s.placed}台 / 必要{s.required}台</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {packingReport && packingReport.strategy !== 'greedy' && (
+                      <div className="p-3 bg-indigo-50 rounded-lg text-xs text-indigo-800 space-y-1">
+                        <div className="font-medium">{PACKING_CONFIG[packingReport.strategy].label}の最適化結果（簡易配置との比較）</div>
+                        <div className="flex justify-between">
+                          <span>席数</span>
+                          <span className="font-mono">
+                            {packingReport.baseline.seats} → {packingReport.optimized.seats}席
+                            （{packingReport.optimized.seats - packingReport.baseline.seats >= 0 ? '+' : ''}{packingReport.optimized.seats - packingReport.baseline.seats}）
+                          </span>
+                        </div>
+                        {packingReport.baseline.seats > 0 && packingReport.optimized.seats > 0 && (
+                          <div className="flex justify-between">
+                            <span>1席あたり</span>
+                            <span className="font-mono">
+                              ¥{Math.round(packingReport.baseline.cost / packingReport.baseline.seats).toLocaleString()} → ¥{Math.round(packingReport.optimized.cost / packingReport.optimized.seats).toLocaleString()}
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {violations.length > 0 && (
+                      <div className="flex items-start gap-2 p-3 bg-red-50 rounded-lg text-xs text-red-700">
+                        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <div>
+                          <p className="font-medium">配置に問題のある家具があります（赤枠）</p>
+                          <ul className="mt-1 space-y-0.5">
+                            {violations.map((v, i) => (
+                              <li key={i}>
+                                {items.find(item => item.id === v.itemId)?.type.name}:{' '}
+                                {v.kind === 'outside_room'
+                                  ? '範囲外にはみ出しています'
+                                  : v.kind === 'overlaps_item'
+                                    ? `${items.find(item => item.id === v.otherItemId)?.type.name}と重なっています`
+                                    : (v.holeIndex ?? 0) >= holes.length
+                                      ? '扉の開閉範囲と重なっています'
+                                      : `除外エリア${(v.holeIndex ?? 0) + 1}と重なっています`}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
+
+                    {egressReport && (
+                      <div className={`p-3 rounded-lg text-xs space-y-1 ${egressReport.violations.length > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-800'}`}>
+                        <div className="font-medium flex items-center gap-1">
+                          {egressReport.violations.length > 0 ? <AlertCircle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                          避難経路チェック（{egressReport.seats}席）
+                        </div>
+                        <div className="flex justify-between">
+                          <span>最大歩行距離</span>
+                          <span className="font-mono">{(egressReport.maxTravelDistance / 1000).toFixed(1)}m / 上限{(egressRules.maxTravelDistance / 1000).toFixed(1)}m</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>最小通路幅</span>
+                          <span className="font-mono">{egressReport.minCorridorWidth.toLocaleString()}mm / 必要{egressRules.minCorridorWidth.toLocaleString()}mm</span>
+                        </div>
+                        {egressReport.violations.length > 0 && (
+                          <ul className="pt-1 space-y-0.5">
+                            {egressReport.violations.map((v, i) => (
+                              <li key={i}>
+                                {items.find(item => item.id === v.itemId)?.type.name}:{' '}
+                                {v.kind === 'no_route'
+                                  ? '出口までの経路がありません'
+                                  : v.kind === 'travel_distance'
+                                    ? `歩行距離 ${(v.value / 1000).toFixed(1)}m が上限を超えています`
+                                    : `通路幅 ${v.value.toLocaleString()}mm の箇所を通らないと避難できません`}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+
+                    {zoneSummaries.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="text-sm font-medium text-gray-700">ゾーン別内訳</div>
+                        {zoneSummaries.map(zone => (
+                          <div key={zone.zoneId} className="p-3 bg-gray-50 rounded-lg text-xs space-y-1">
+                            <div className="flex justify-between font-medium text-gray-800">
+                              <span>{zone.name}</span>
+                              <span className="font-mono">{zone.seats}席 / ¥{zone.cost.toLocaleString()}</span>
+                            </div>
+                            {Object.entries(zone.counts).map(([name, count]) => (
+                              <div key={name} className="flex justify-between text-gray-500">
+                                <span>{name}</span>
+                                <span className="font-mono">{count}台</span>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="space-y-2">
                       <div className="text-sm font-medium text-gray-700">配置内訳</div>
-                      {Object.entries(counts).map(([name, count]) => (
-                        <div key={name} className="flex justify-between items-center py-2 border-b border-gray-100 last:border-0">
-                          <span className="text-sm text-gray-600">{name}</span>
-                          <span className="font-mono font-medium">{count}台</span>
+                      {estimateLines.map((line, i) => (
+                        <div key={i} className="flex justify-between items-center py-2 border-b border-gray-100 last:border-0">
+                          <span className="text-sm text-gray-600">{line.name}</span>
+                          <span className="font-mono font-medium">{line.count}{line.kind === 'chair' ? '脚' : '台'}</span>
                         </div>
                       ))}
                     </div>
@@ -475,6 +1267,7 @@ function App() {
                         <p className="font-medium">範囲（外枠）を指定中</p>
                         <p className="text-xs mt-1">
                           クリックで点を追加し、範囲を囲ってください。<br />
+                          既存の頂点・辺や角度に自動でスナップします（<span className="font-semibold">Alt</span>で解除）。<br />
                           <span className="font-semibold">Shiftキー</span>を押しながらクリックすると、垂直・水平に線を引けます。
                         </p>
                       </div>
@@ -491,7 +1284,76 @@ function App() {
                             ? '範囲を囲って「このエリアを追加」を押してください。' 
                             : 'クリックして除外したい場所を囲ってください。複数のエリアを指定できます。'}
                           <br />
-                          <span className="font-semibold">Shiftキー</span>で垂直・水平固定。
+                          壁や柱の角・辺にスナップします。<span className="font-semibold">Shiftキー</span>で垂直・水平固定。
+                        </p>
+                        {/* Rectangles and circles take two clicks: corner to corner, centre to rim */}
+                        <div className="flex gap-1 mt-2">
+                          {([
+                            { tool: 'polygon', label: '多角形', icon: Pentagon },
+                            { tool: 'rect', label: '四角形', icon: Square },
+                            { tool: 'circle', label: '円', icon: Circle }
+                          ] as const).map(({ tool, label, icon: Icon }) => (
+                            <button
+                              key={tool}
+                              onClick={() => {
+                                setHoleTool(tool);
+                                setTempPoints([]);
+                              }}
+                              className={`px-2 py-1 rounded border text-xs flex items-center gap-1 ${
+                                holeTool === tool ? 'bg-white border-gray-400 text-gray-800 font-medium' : 'border-transparent text-gray-500 hover:bg-white'
+                              }`}
+                            >
+                              <Icon className="w-3 h-3" />
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                        {holeTool !== 'polygon' && (
+                          <p className="text-xs mt-1">
+                            {holeTool === 'rect' ? '対角の2点をクリックすると柱などの四角形を追加します。' : '中心と外周をクリックすると丸柱などの円を追加します。'}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ) : mode === 'draw_zone' ? (
+                    <div className="flex items-start gap-2 text-violet-700 bg-violet-50 p-3 rounded-lg">
+                      <MousePointer2 className="w-4 h-4 mt-0.5" />
+                      <div>
+                        <p className="font-medium">
+                          {tempPoints.length > 0 ? 'ゾーンを指定中...' : 'ゾーンを追加できます'}
+                        </p>
+                        <p className="text-xs mt-1">
+                          執務エリアや研修コーナーなど、別の設定で配置したい範囲を囲ってください。
+                          <br />
+                          壁や柱の角・辺にスナップします。<span className="font-semibold">Shiftキー</span>で垂直・水平固定。
+                        </p>
+                      </div>
+                    </div>
+                  ) : mode === 'edit_polygon' ? (
+                    <div className="flex items-start gap-2 text-indigo-600 bg-indigo-50 p-3 rounded-lg">
+                      <MousePointer2 className="w-4 h-4 mt-0.5" />
+                      <div>
+                        <p className="font-medium">範囲と除外エリアを編集中（除外エリア{holes.length}箇所）</p>
+                        <p className="text-xs mt-1">
+                          頂点をドラッグで移動、辺をクリックで頂点を追加、頂点をダブルクリックで削除します。
+                          <br />
+                          除外エリアをクリックで選択し、<span className="font-semibold">Deleteキー</span>で削除できます。
+                        </p>
+                      </div>
+                    </div>
+                  ) : mode === 'set_exit' || mode === 'set_door' ? (
+                    <div className="flex items-start gap-2 text-green-700 bg-green-50 p-3 rounded-lg">
+                      <MousePointer2 className="w-4 h-4 mt-0.5" />
+                      <div>
+                        <p className="font-medium">
+                          {mode === 'set_door' ? '扉を配置中' : '出口を配置中'}（{exits.length}箇所）
+                        </p>
+                        <p className="text-xs mt-1">
+                          {mode === 'set_door'
+                            ? '部屋の外周（辺）をクリックすると、開き戸を追加します。扉の開閉範囲には家具を置きません。'
+                            : '部屋の外周（辺）をクリックすると、その位置に出口（開口）を追加します。'}
+                          <br />
+                          配置済みの出口・扉をクリックすると削除します。
                         </p>
                       </div>
                     </div>
@@ -515,8 +1377,8 @@ function App() {
                         onClick={() => {
                           setMode('draw_polygon');
                           setTempPoints([]);
-                          setPolygon([]);
-                          setHoles([]); // Reset holes when redrawing main polygon
+                          // Holes, zones and exits belong to the old outline; undo brings them back
+                          commit('範囲を再指定', { polygon: [], holes: [], zones: [], exits: [], frontEdgeIndex: null });
                         }}
                         className="w-full py-2 px-3 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 text-indigo-700 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
                       >
@@ -524,6 +1386,16 @@ function App() {
                         {polygon.length > 0 ? '範囲を再指定' : '範囲を指定'}
                       </button>
                       
+                      {polygon.length > 0 && (
+                        <button
+                          onClick={() => setMode('edit_polygon')}
+                          className="w-full py-2 px-3 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 text-indigo-700 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+                        >
+                          <Pencil className="w-4 h-4" />
+                          範囲・除外エリアを編集
+                        </button>
+                      )}
+
                       {polygon.length > 0 && (
                         <button
                           onClick={() => {
@@ -536,22 +1408,66 @@ function App() {
                           除外エリアを追加
                         </button>
                       )}
+
+                      {polygon.length > 0 && (
+                        <button
+                          onClick={() => {
+                            setMode('draw_zone');
+                            setTempPoints([]);
+                          }}
+                          className="w-full py-2 px-3 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 text-indigo-700 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+                        >
+                          <Grid className="w-4 h-4" />
+                          ゾーンを追加
+                        </button>
+                      )}
+
+                      {polygon.length > 0 && (
+                        <button
+                          onClick={() => setMode('set_exit')}
+                          className="w-full py-2 px-3 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 text-indigo-700 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+                        >
+                          <MapPin className="w-4 h-4" />
+                          出口を配置
+                        </button>
+                      )}
+
+                      {polygon.length > 0 && (
+                        <button
+                          onClick={() => setMode('set_door')}
+                          className="w-full py-2 px-3 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 text-indigo-700 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+                        >
+                          <DoorOpen className="w-4 h-4" />
+                          扉を配置
+                        </button>
+                      )}
                     </>
                   ) : (
                     <>
                       {/* Show "Complete" button only for main polygon or when drawing a hole */}
-                      {(mode === 'draw_polygon' || (mode === 'draw_hole' && tempPoints.length >= 3)) && (
+                      {(mode === 'draw_polygon' || ((mode === 'draw_hole' || mode === 'draw_zone') && tempPoints.length >= 3)) && (
                         <button
                           onClick={handleFinish}
                           disabled={tempPoints.length < 3}
                           className="flex-1 py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-md"
                         >
                           <Check className="w-4 h-4" />
-                          {mode === 'draw_hole' ? 'このエリアを追加' : '完了'}
+                          {mode === 'draw_hole' ? 'このエリアを追加' : mode === 'draw_zone' ? 'このゾーンを追加' : '完了'}
                         </button>
                       )}
                       
-                      {mode === 'draw_hole' && (
+                      {mode === 'edit_polygon' && (
+                        <button
+                          onClick={handleDeleteHole}
+                          disabled={selectedHoleIndex === null}
+                          className="flex-1 py-2 px-4 bg-white border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          選択した除外エリアを削除
+                        </button>
+                      )}
+
+                      {(mode === 'draw_hole' || mode === 'draw_zone' || mode === 'set_exit' || mode === 'set_door' || mode === 'edit_polygon') && (
                         <button
                           onClick={() => {
                             setMode('view');
@@ -568,14 +1484,16 @@ function App() {
                         </button>
                       )}
 
-                      <button
-                        onClick={handleUndo}
-                        disabled={tempPoints.length === 0}
-                        className="py-2 px-4 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                        title="一つ戻る"
-                      >
-                        <Undo2 className="w-4 h-4" />
-                      </button>
+                      {mode !== 'set_exit' && mode !== 'set_door' && mode !== 'edit_polygon' && (
+                        <button
+                          onClick={handleUndo}
+                          disabled={tempPoints.length === 0}
+                          className="py-2 px-4 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="一つ戻る"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                        </button>
+                      )}
                       
                       {/* Cancel button only for main polygon drawing */}
                       {mode === 'draw_polygon' && (
@@ -625,8 +1543,7 @@ function App() {
                     <button
                       onClick={() => {
                         setMode('set_scale');
-                        setScaleLine(null);
-                        setIsScaleSet(false);
+                        commit('縮尺を再設定', { scaleLine: null, isScaleSet: false });
                       }}
                       className="w-full py-2 px-3 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 text-indigo-700 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
                     >
@@ -646,7 +1563,7 @@ function App() {
                           <input
                             type="number"
                             value={realLength}
-                            onChange={(e) => setRealLength(Number(e.target.value))}
+                            onChange={(e) => commit('実際の長さを変更', { realLength: Number(e.target.value) })}
                             className="w-full pl-3 pr-8 py-1.5 text-sm border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                           />
                           <span className="absolute right-3 top-1.5 text-xs text-gray-500">mm</span>
@@ -682,45 +1599,241 @@ function App() {
                   {/* Furniture Types */}
                   <div>
                     <label className="text-sm font-medium text-gray-700 mb-2 block">使用する家具</label>
-                    <div className="space-y-2">
-                      {furnitureTypes.map((type) => (
-                        <div key={type.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-100">
-                          <div className="flex items-center gap-3">
-                            <input
-                              type="checkbox"
-                              checked={type.enabled !== false}
-                              onChange={() => handleToggleType(type.id)}
-                              className="w-4 h-4 text-indigo-600 rounded border-gray-300 focus:ring-indigo-500"
-                            />
-                            <div>
-                              <div className="text-sm font-medium text-gray-900">{type.name}</div>
-                              <div className="text-xs text-gray-500">
-                                {type.tableWidth}x{type.tableDepth}mm • {type.chairCount}席
-                              </div>
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <span className="text-xs text-gray-400">¥</span>
-                            <input
-                              type="number"
-                              value={type.unitPrice}
-                              onChange={(e) => handlePriceChange(type.id, Number(e.target.value))}
-                              className="w-20 text-right text-sm bg-white border border-gray-200 rounded px-2 py-1"
-                            />
-                          </div>
+                    <FurnitureCatalogEditor types={furnitureTypes} chairModels={chairModels} onChange={(types) => commit('家具カタログを編集', { furnitureTypes: types })} />
+                  </div>
+
+                  {/* Chair Models */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">椅子</label>
+                    <ChairModelEditor chairModels={chairModels} onChange={(models) => commit('椅子モデルを編集', { chairModels: models })} />
+                  </div>
+
+                  {/* Wall Furniture */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">壁際家具（収納・ロッカー・プリンター）</label>
+                    <WallFurnitureEditor items={wallFurniture} onChange={(next) => commit('壁際家具を編集', { wallFurniture: next })} />
+                  </div>
+
+                  {/* Layout Presets */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">レイアウトパターン</label>
+                    <PresetEditor presets={presets} onChange={(next) => commit('プリセットを編集', { presets: next })} />
+                  </div>
+
+                  {/* Zones */}
+                  {zones.length > 0 && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 mb-2 block">ゾーン設定</label>
+                      <ZoneEditor
+                        zones={zones}
+                        presets={presets}
+                        furnitureTypes={furnitureTypes}
+                        onChange={(next) => commit('ゾーンを編集', { zones: next })}
+                      />
+                    </div>
+                  )}
+
+                  {/* Arrangement */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">配置方式</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {(Object.keys(ARRANGEMENT_CONFIG) as LayoutArrangement[]).map((a) => (
+                        <button
+                          key={a}
+                          onClick={() => commit('配置方式を変更', { arrangement: a })}
+                          className={`p-3 rounded-lg border text-left transition-colors ${
+                            arrangement === a
+                              ? 'bg-indigo-50 border-indigo-300 text-indigo-700'
+                              : 'bg-gray-50 border-gray-100 text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          <div className="text-sm font-medium">{ARRANGEMENT_CONFIG[a].label}</div>
+                          <div className="text-xs text-gray-500">{ARRANGEMENT_CONFIG[a].description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Classroom Front Wall */}
+                  {arrangement === 'classroom' && (
+                    <div className="bg-blue-50 p-4 rounded-xl space-y-3">
+                      <p className="text-xs text-blue-800">
+                        スクリーンやホワイトボードのある壁を<strong>前方</strong>として選択してください。
+                        机の列はその壁と平行に並び、全席が前方を向きます。
+                      </p>
+                      {mode === 'set_front' ? (
+                        <button
+                          onClick={() => setMode('view')}
+                          className="w-full py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium"
+                        >
+                          選択を終了
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setMode('set_front')}
+                          className="w-full py-2 px-3 bg-white border border-blue-200 hover:bg-blue-100 text-blue-700 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+                        >
+                          <MapPin className="w-4 h-4" />
+                          {frontEdgeIndex !== null ? '前方の壁を選び直す' : '前方の壁を選択'}
+                        </button>
+                      )}
+                      <div className="flex items-center gap-2">
+                        <label className="text-xs font-medium text-blue-900 whitespace-nowrap">前方の空き:</label>
+                        <div className="relative flex-1">
+                          <input
+                            type="number"
+                            min={0}
+                            step={100}
+                            value={frontClearance}
+                            onChange={(e) => commit('前方の空きを変更', { frontClearance: Math.max(0, Number(e.target.value)) })}
+                            className="w-full pl-3 pr-8 py-1.5 text-sm border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                          <span className="absolute right-3 top-1.5 text-xs text-gray-500">mm</span>
                         </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Packing Strategy */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">配置の最適化</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {(Object.keys(PACKING_CONFIG) as PackingStrategy[]).map((k) => (
+                        <button
+                          key={k}
+                          onClick={() => commit('配置の最適化を変更', { packing: k })}
+                          title={PACKING_CONFIG[k].description}
+                          className={`p-2 rounded-lg border text-sm font-medium transition-colors ${
+                            packing === k
+                              ? 'bg-indigo-50 border-indigo-300 text-indigo-700'
+                              : 'bg-gray-50 border-gray-100 text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          {PACKING_CONFIG[k].label}
+                        </button>
                       ))}
                     </div>
                   </div>
 
+                  {/* Headcount Target */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">必要席数（任意）</label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        min={0}
+                        value={headcountTarget || ''}
+                        placeholder="例: 48"
+                        onChange={(e) => commit('目標席数を変更', { headcountTarget: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                        className="w-full pl-3 pr-8 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                      <span className="absolute right-3 top-1.5 text-xs text-gray-500">席</span>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      指定すると、この席数を満たす最もゆとりのある通路幅と家具の組み合わせを探します。
+                    </p>
+                  </div>
+
+                  {/* Budget Cap */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">予算上限（税込・任意）</label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-1.5 text-xs text-gray-500">¥</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={10000}
+                        value={budget || ''}
+                        placeholder="例: 1000000"
+                        onChange={(e) => commit('予算を変更', { budget: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                        className="w-full pl-7 pr-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      指定すると、税込合計がこの金額に収まる最大席数のレイアウトを探します。
+                    </p>
+                  </div>
+
+                  {/* Wheelchair Workstations */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">車椅子席（任意）</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min={0}
+                          value={accessibleCount || ''}
+                          placeholder="例: 2"
+                          onChange={(e) => commit('車椅子席数を変更', { accessibleCount: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                          className="w-full pl-3 pr-8 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                        <span className="absolute right-3 top-1.5 text-xs text-gray-500">席</span>
+                      </div>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min={800}
+                          step={100}
+                          value={accessibleRouteWidth}
+                          onChange={(e) => commit('車椅子通路幅を変更', { accessibleRouteWidth: Math.max(800, Number(e.target.value)) })}
+                          className="w-full pl-3 pr-10 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                        <span className="absolute right-3 top-1.5 text-xs text-gray-500">mm</span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      椅子なしの机と直径{ACCESSIBLE_SEAT.turningDiameter}mmの回転スペースを出口の近くに確保し、
+                      出口まで指定幅の通路を空けます（出口の配置が必要です）。
+                    </p>
+                  </div>
+
+                  {/* Egress Check */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">避難経路チェック</label>
+                    <EgressSettings
+                      exits={exits}
+                      rules={egressRules}
+                      onExitsChange={(next) => commit('出口を編集', { exits: next })}
+                      onRulesChange={(rules) => commit('避難ルールを変更', { egressRules: rules })}
+                    />
+                  </div>
+
                   {/* Generate Button */}
-                  <button
-                    onClick={handleGenerateLayout}
-                    className="w-full py-3 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white rounded-xl font-bold shadow-lg shadow-indigo-200 transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center gap-2"
-                  >
-                    <Calculator className="w-5 h-5" />
-                    レイアウトを生成
-                  </button>
+                  {generationProgress ? (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm text-gray-600">
+                        <span className="flex items-center gap-2">
+                          <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
+                          {generationProgress.step === 'headcount'
+                            ? '目標席数のレイアウトを探索中...'
+                            : generationProgress.step === 'budget'
+                              ? '予算内のレイアウトを探索中...'
+                              : `${presets.find(p => p.id === generationProgress.step)?.label ?? ''}プランを計算中...`}
+                        </span>
+                        <span className="font-mono">{Math.floor(generationProgress.completed)}/{generationProgress.total}</span>
+                      </div>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-indigo-600 transition-all"
+                          style={{ width: `${(generationProgress.completed / generationProgress.total) * 100}%` }}
+                        />
+                      </div>
+                      <button
+                        onClick={handleCancelGenerate}
+                        className="w-full py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg text-sm font-medium"
+                      >
+                        キャンセル
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleGenerateLayout}
+                      className="w-full py-3 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white rounded-xl font-bold shadow-lg shadow-indigo-200 transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center gap-2"
+                    >
+                      <Calculator className="w-5 h-5" />
+                      レイアウトを生成
+                    </button>
+                  )}
                 </div>
               </section>
             </div>
@@ -728,6 +1841,22 @@ function App() {
             {/* Right Column: Canvas */}
             <div className="lg:col-span-2 space-y-4">
               <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden p-4 min-h-[600px] flex flex-col">
+                {image && canTrace && (
+                  <FreehandToolbar
+                    drawTab={drawTab}
+                    onDrawTabChange={(tab) => {
+                      setDrawTab(tab);
+                      setTempPoints([]);
+                    }}
+                    tolerance={freehandTolerance}
+                    onToleranceChange={setFreehandTolerance}
+                    orthogonal={freehandOrthogonal}
+                    onOrthogonalChange={setFreehandOrthogonal}
+                  />
+                )}
+                {image && !isTracing && (mode === 'set_scale' || mode === 'draw_polygon' || mode === 'draw_hole' || mode === 'draw_zone') && (
+                  <SnapToolbar settings={snapSettings} onChange={(next) => commit('スナップ設定を変更', { snapSettings: next })} gridAvailable={isScaleSet} />
+                )}
                 <div className="flex-1 bg-gray-50 rounded-xl overflow-hidden relative">
                   {!image ? (
                     <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-400">
@@ -741,15 +1870,41 @@ function App() {
                       holes={holes}
                       items={items}
                       scale={scale}
-                      onPolygonChange={setPolygon}
+                      onPolygonChange={handlePolygonEdit}
                       mode={mode}
                       scaleLine={scaleLine}
-                      onScaleLineChange={setScaleLine}
+                      onScaleLineChange={(line) => commit('縮尺線を変更', { scaleLine: line })}
                       onFinishDrawing={handleFinish}
                       tempPoints={tempPoints}
                       onTempPointsChange={setTempPoints}
                       onEdgeClick={handleEdgeClick}
                       showDimensions={isScaleSet}
+                      zones={zones}
+                      frontEdgeIndex={arrangement === 'classroom' ? frontEdgeIndex : null}
+                      onFrontEdgeSelect={(index) => {
+                        commit('前方の壁を指定', { frontEdgeIndex: index });
+                        setMode('view');
+                      }}
+                      exits={exits}
+                      onExitAdd={(edgeIndex, position) => commit(mode === 'set_door' ? '扉を追加' : '出口を追加', { exits: [
+                        ...exits,
+                        {
+                          id: `exit-${crypto.randomUUID()}`,
+                          edgeIndex,
+                          position,
+                          width: DEFAULT_EXIT_WIDTH,
+                          swing: mode === 'set_door' ? 'left' : undefined
+                        }
+                      ] })}
+                      onExitRemove={(id) => commit('出口を削除', { exits: exits.filter(e => e.id !== id) })}
+                      snapSettings={isScaleSet ? snapSettings : { ...snapSettings, gridMm: 0 }}
+                      onHolesChange={(next) => commit('除外エリアを編集', { holes: next })}
+                      selectedHoleIndex={selectedHoleIndex}
+                      onHoleSelect={setSelectedHoleIndex}
+                      holeTool={holeTool}
+                      onShapeComplete={(points) => commit('除外エリアを追加', { holes: [...holes, points] })}
+                      freehand={drawTab === 'freehand'}
+                      onFreehandComplete={handleFreehandComplete}
                     />
                   )}
                 </div>
@@ -767,8 +1922,14 @@ function App() {
                     </div>
                   </div>
                   <div>
-                    {mode === 'draw_polygon' && 'クリックで点を追加 / Shift+クリックで軸固定'}
-                    {mode === 'set_scale' && 'クリックで始点と終点を指定 / Shift+クリックで軸固定'}
+                    {mode === 'draw_polygon' && (drawTab === 'freehand' ? 'ドラッグで輪郭をなぞる' : 'クリックで点を追加 / Shift+クリックで軸固定 / Altでスナップ解除')}
+                    {mode === 'set_scale' && 'クリックで始点と終点を指定 / Shift+クリックで軸固定 / Altでスナップ解除'}
+                    {mode === 'draw_hole' && holeTool === 'rect' && '対角の2点をクリックで四角形を追加'}
+                    {mode === 'draw_hole' && holeTool === 'circle' && '中心と外周をクリックで円を追加'}
+                    {mode === 'edit_polygon' && '頂点をドラッグ / 辺をクリックで頂点を追加 / ダブルクリックで頂点を削除'}
+                    {mode === 'set_front' && '前方にする壁（辺）をクリック'}
+                    {mode === 'set_exit' && '外周をクリックで出口を追加 / 出口をクリックで削除'}
+                    {mode === 'set_door' && '外周をクリックで扉を追加 / 扉をクリックで削除'}
                   </div>
                 </div>
               </div>
@@ -782,7 +1943,7 @@ function App() {
         onClose={() => setIsEstimateOpen(false)}
         items={items}
         totalCost={totalCost}
-        counts={counts}
+        zoneSummaries={zoneSummaries}
       />
     </div>
   );
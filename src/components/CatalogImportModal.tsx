@@ -0,0 +1,121 @@
+import React from 'react';
+import { AlertCircle, FileUp, X } from 'lucide-react';
+import {
+  CATALOG_DIFF_FIELDS, CatalogChange, CatalogDiffField, CatalogImportError, CatalogFormat
+} from '../utils/furnitureCatalog';
+import { FURNITURE_SHAPE_LABELS, FurnitureShape } from '../constants';
+
+interface CatalogImportModalProps {
+  fileName: string;
+  format: CatalogFormat;
+  changes: CatalogChange[];
+  errors: CatalogImportError[];
+  unchanged: number; // Imported rows identical to the current catalog
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const formatValue = (field: CatalogDiffField, value: unknown) => {
+  if (value === undefined || value === '') return '—';
+  if (field === 'shape') return FURNITURE_SHAPE_LABELS[value as FurnitureShape] ?? String(value);
+  const { unit } = CATALOG_DIFF_FIELDS[field];
+  return typeof value === 'number' ? `${value.toLocaleString()}${unit}` : String(value);
+};
+
+/**
+ * Preview of a catalog import: new types, changed prices and dimensions, and the rows
+ * that were rejected. Nothing changes until the import is applied.
+ */
+const CatalogImportModal: React.FC<CatalogImportModalProps> = ({
+  fileName, format, changes, errors, unchanged, onApply, onClose
+}) => {
+  const added = changes.filter(c => c.kind === 'added');
+  const changed = changes.filter(c => c.kind === 'changed');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-indigo-600" />
+            カタログの取り込み
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            {fileName}：追加 {added.length}件 / 変更 {changed.length}件 / 変更なし {unchanged}件
+            {errors.length > 0 && <span className="text-red-600"> / エラー {errors.length}件</span>}
+          </p>
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-lg space-y-1">
+              <div className="text-sm font-medium text-red-700 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4" />
+                取り込めない行（スキップされます）
+              </div>
+              {errors.map((error, i) => (
+                <div key={i} className="text-xs text-red-600">
+                  {format === 'csv' ? `${error.line}行目` : `${error.line}件目`}: {error.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {changed.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-gray-700">変更</div>
+              {changed.map(change => (
+                <div key={change.type.id} className="p-3 bg-gray-50 rounded-lg border border-gray-100">
+                  <div className="text-sm font-medium text-gray-900">{change.type.name}</div>
+                  {change.fields.map(({ field, before, after }) => (
+                    <div key={field} className="text-xs text-gray-600 flex gap-2">
+                      <span className="w-16 text-gray-400">{CATALOG_DIFF_FIELDS[field].label}</span>
+                      <span className="line-through">{formatValue(field, before)}</span>
+                      <span>→</span>
+                      <span className="font-medium text-indigo-700">{formatValue(field, after)}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {added.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-gray-700">追加</div>
+              {added.map(change => (
+                <div key={change.type.id} className="p-3 bg-green-50 rounded-lg border border-green-100 text-xs text-gray-600">
+                  <span className="text-sm font-medium text-gray-900 mr-2">{change.type.name}</span>
+                  {change.type.tableWidth}x{change.type.tableDepth}mm • {change.type.chairCount}席 • ¥{change.type.unitPrice.toLocaleString()}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {changes.length === 0 && errors.length === 0 && (
+            <p className="text-sm text-gray-400">現在のカタログとの差分はありません。</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg">
+            キャンセル
+          </button>
+          <button
+            onClick={onApply}
+            disabled={changes.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {changes.length}件を反映
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogImportModal;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { ChairModel } from '../constants';
+import { validateChairModel } from '../utils/furnitureCatalog';
+
+interface ChairModelEditorProps {
+  chairModels: ChairModel[];
+  onChange: (chairModels: ChairModel[]) => void;
+}
+
+/**
+ * Chair models the furniture types can seat, each with its own footprint and price.
+ * At least one model is kept, since it is the fallback for types without a model.
+ */
+const ChairModelEditor: React.FC<ChairModelEditorProps> = ({ chairModels, onChange }) => {
+  const update = (id: string, patch: Partial<ChairModel>) => {
+    onChange(chairModels.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const handleAdd = () => {
+    onChange([...chairModels, {
+      id: `chair-${crypto.randomUUID()}`,
+      name: `新しい椅子${chairModels.length + 1}`,
+      width: 500,
+      depth: 600,
+      unitPrice: 8000
+    }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {chairModels.map((chair, i) => {
+        const errors = validateChairModel(chair);
+        return (
+          <div
+            key={chair.id}
+            className={`p-3 bg-gray-50 rounded-lg border space-y-2 ${errors.length > 0 ? 'border-red-200' : 'border-gray-100'}`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={chair.name}
+                onChange={(e) => update(chair.id, { name: e.target.value })}
+                className="flex-1 min-w-0 text-sm font-medium bg-white border border-gray-200 rounded px-2 py-1"
+              />
+              {i === 0 && <span className="text-[10px] text-gray-400 shrink-0">既定</span>}
+              <button
+                onClick={() => onChange(chairModels.filter(c => c.id !== chair.id))}
+                disabled={chairModels.length <= 1}
+                className="p-1 text-gray-400 hover:text-red-600 rounded disabled:opacity-30 disabled:hover:text-gray-400"
+                title="椅子を削除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                { key: 'width', label: '幅', unit: 'mm' },
+                { key: 'depth', label: '奥行', unit: 'mm' },
+                { key: 'unitPrice', label: '単価', unit: '¥' }
+              ] as const).map(({ key, label, unit }) => (
+                <label key={key} className="flex flex-col gap-1">
+                  <span className="text-[10px] text-gray-500">{label}</span>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min={0}
+                      value={chair[key]}
+                      onChange={(e) => update(chair.id, { [key]: Number(e.target.value) })}
+                      className="w-full pl-2 pr-7 py-1 text-xs bg-white border border-gray-200 rounded"
+                    />
+                    <span className="absolute right-2 top-1 text-[10px] text-gray-400">{unit}</span>
+                  </div>
+                </label>
+              ))}
+            </div>
+            {errors.length > 0 && (
+              <div className="flex items-start gap-1 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                <span>{errors.join(' / ')}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={handleAdd}
+        className="w-full py-2 px-3 bg-white border border-dashed border-gray-300 hover:border-indigo-300 hover:text-indigo-700 text-gray-600 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        椅子を追加
+      </button>
+    </div>
+  );
+};
+
+export default ChairModelEditor;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { EgressRules } from '../constants';
+import { RoomExit } from '../utils/egress';
+
+const SWING_LABELS: Record<'none' | NonNullable<RoomExit['swing']>, string> = {
+  none: '開口',
+  left: '開き戸（左吊り）',
+  right: '開き戸（右吊り）'
+};
+
+interface EgressSettingsProps {
+  exits: RoomExit[];
+  rules: EgressRules;
+  onExitsChange: (exits: RoomExit[]) => void;
+  onRulesChange: (rules: EgressRules) => void;
+}
+
+/**
+ * Exit widths and the thresholds of the egress check.
+ * Exits and doors themselves are placed by clicking the room outline on the canvas.
+ */
+const EgressSettings: React.FC<EgressSettingsProps> = ({ exits, rules, onExitsChange, onRulesChange }) => {
+  const updateExit = (id: string, patch: Partial<RoomExit>) => {
+    onExitsChange(exits.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] text-gray-500">最大歩行距離</span>
+          <div className="relative">
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={rules.maxTravelDistance / 1000}
+              onChange={(e) => onRulesChange({ ...rules, maxTravelDistance: Math.max(1, Number(e.target.value)) * 1000 })}
+              className="w-full pl-2 pr-7 py-1 text-xs bg-white border border-gray-200 rounded"
+            />
+            <span className="absolute right-2 top-1 text-[10px] text-gray-400">m</span>
+          </div>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] text-gray-500">最小通路幅</span>
+          <div className="relative">
+            <input
+              type="number"
+              min={100}
+              step={100}
+              value={rules.minCorridorWidth}
+              onChange={(e) => onRulesChange({ ...rules, minCorridorWidth: Math.max(100, Number(e.target.value)) })}
+              className="w-full pl-2 pr-7 py-1 text-xs bg-white border border-gray-200 rounded"
+            />
+            <span className="absolute right-2 top-1 text-[10px] text-gray-400">mm</span>
+          </div>
+        </label>
+      </div>
+
+      {exits.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          出口が未設定です。「出口を配置」「扉を配置」で部屋の外周をクリックしてください。
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {exits.map((exit, i) => (
+            <div key={exit.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg border border-gray-100">
+              <div className="w-3 h-3 rounded-full shrink-0 bg-green-600" />
+              <span className="text-xs font-medium text-gray-700">出口{i + 1}</span>
+              <select
+                value={exit.swing ?? 'none'}
+                onChange={(e) => updateExit(exit.id, { swing: e.target.value === 'none' ? undefined : e.target.value as RoomExit['swing'] })}
+                className="flex-1 min-w-0 text-xs bg-white border border-gray-200 rounded px-1 py-1"
+              >
+                {(Object.keys(SWING_LABELS) as (keyof typeof SWING_LABELS)[]).map(key => (
+                  <option key={key} value={key}>{SWING_LABELS[key]}</option>
+                ))}
+              </select>
+              <div className="relative w-20 shrink-0">
+                <input
+                  type="number"
+                  min={100}
+                  step={50}
+                  value={exit.width}
+                  onChange={(e) => updateExit(exit.id, { width: Math.max(100, Number(e.target.value)) })}
+                  className="w-full pl-2 pr-7 py-1 text-xs bg-white border border-gray-200 rounded"
+                />
+                <span className="absolute right-2 top-1 text-[10px] text-gray-400">mm</span>
+              </div>
+              <button
+                onClick={() => onExitsChange(exits.filter(e => e.id !== exit.id))}
+                className="p-1 text-gray-400 hover:text-red-600 rounded"
+                title="出口を削除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EgressSettings;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X, Printer, FileText, Download, Loader2 } from 'lucide-react';
-import { PlacedItem } from '../utils/layoutEngine';
+import { PlacedItem, ZoneSummary, getEstimateLines } from '../utils/layoutEngine';
+import { TAX_RATE, withTax } from '../constants';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 
@@ -9,10 +10,10 @@ interface EstimateModalProps {
   onClose: () => void;
   items: PlacedItem[];
   totalCost: number;
-  counts: Record<string, number>;
+  zoneSummaries?: ZoneSummary[]; // Breakdown shown under the totals for zoned layouts
 }
 
-const EstimateModal: React.FC<EstimateModalProps> = ({ isOpen, onClose, items, totalCost, counts }) => {
+const EstimateModal: React.FC<EstimateModalProps> = ({ isOpen, onClose, items, totalCost, zoneSummaries = [] }) => {
   const [isGenerating, setIsGenerating] = useState(false);
 
   if (!isOpen) return null;
@@ -73,17 +74,8 @@ const EstimateModal: React.FC<EstimateModalProps> = ({ isOpen, onClose, items, t
     }
   };
 
-  // Group items by type for the table
-  const tableRows = Object.entries(counts).map(([name, count]) => {
-    const item = items.find(i => i.type.name === name);
-    if (!item) return null;
-    return {
-      name,
-      count,
-      unitPrice: item.type.unitPrice,
-      subtotal: item.type.unitPrice * count
-    };
-  }).filter(Boolean);
+  // Tables and chairs are sold separately, so each gets its own line
+  const tableRows = getEstimateLines(items);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 print:bg-white print:static print:block">
@@ -188,10 +180,13 @@ const EstimateModal: React.FC<EstimateModalProps> = ({ isOpen, onClose, items, t
             <tbody className="divide-y divide-gray-100">
               {tableRows.map((row, index) => (
                 <tr key={index} className="hover:bg-gray-50/50">
-                  <td className="py-4 px-4 text-gray-800">{row?.name}</td>
-                  <td className="py-4 px-4 text-right text-gray-600">¥{row?.unitPrice.toLocaleString()}</td>
-                  <td className="py-4 px-4 text-right text-gray-600">{row?.count}</td>
-                  <td className="py-4 px-4 text-right font-medium text-gray-900">¥{row?.subtotal.toLocaleString()}</td>
+                  <td className="py-4 px-4 text-gray-800">
+                    {row.name}
+                    {row.sku && <span className="ml-2 text-xs text-gray-400">{row.sku}</span>}
+                  </td>
+                  <td className="py-4 px-4 text-right text-gray-600">¥{row.unitPrice.toLocaleString()}</td>
+                  <td className="py-4 px-4 text-right text-gray-600">{row.count}{row.kind === 'chair' ? '脚' : '台'}</td>
+                  <td className="py-4 px-4 text-right font-medium text-gray-900">¥{row.subtotal.toLocaleString()}</td>
                 </tr>
               ))}
             </tbody>
@@ -201,16 +196,45 @@ const EstimateModal: React.FC<EstimateModalProps> = ({ isOpen, onClose, items, t
                 <td className="py-4 px-4 text-right font-bold text-gray-900">¥{totalCost.toLocaleString()}</td>
               </tr>
               <tr>
-                <td colSpan={3} className="py-2 px-4 text-right text-gray-600">消費税 (10%)</td>
-                <td className="py-2 px-4 text-right text-gray-600">¥{Math.floor(totalCost * 0.1).toLocaleString()}</td>
+                <td colSpan={3} className="py-2 px-4 text-right text-gray-600">消費税 ({Math.round(TAX_RATE * 100)}%)</td>
+                <td className="py-2 px-4 text-right text-gray-600">¥{Math.floor(totalCost * TAX_RATE).toLocaleString()}</td>
               </tr>
               <tr className="border-t border-gray-300">
                 <td colSpan={3} className="py-4 px-4 text-right font-bold text-lg text-indigo-900">合計</td>
-                <td className="py-4 px-4 text-right font-bold text-lg text-indigo-900">¥{Math.floor(totalCost * 1.1).toLocaleString()}</td>
+                <td className="py-4 px-4 text-right font-bold text-lg text-indigo-900">¥{withTax(totalCost).toLocaleString()}</td>
               </tr>
             </tfoot>
           </table>
 
+          {/* Zone Breakdown */}
+          {zoneSummaries.length > 0 && (
+            <div className="mb-12">
+              <h3 className="font-semibold text-gray-900 mb-3">ゾーン別内訳</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="py-2 px-4 text-left font-semibold text-gray-700">ゾーン</th>
+                    <th className="py-2 px-4 text-left font-semibold text-gray-700">内訳</th>
+                    <th className="py-2 px-4 text-right font-semibold text-gray-700">席数</th>
+                    <th className="py-2 px-4 text-right font-semibold text-gray-700">金額</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {zoneSummaries.map(zone => (
+                    <tr key={zone.zoneId}>
+                      <td className="py-2 px-4 text-gray-800">{zone.name}</td>
+                      <td className="py-2 px-4 text-gray-600">
+                        {Object.entries(zone.counts).map(([name, count]) => `${name} ×${count}`).join('、') || '-'}
+                      </td>
+                      <td className="py-2 px-4 text-right text-gray-600">{zone.seats}</td>
+                      <td className="py-2 px-4 text-right text-gray-900">¥{zone.cost.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Notes */}
           <div className="bg-gray-50 p-6 rounded-lg border border-gray-100 print:bg-transparent print:border-gray-200">
             <h3 className="font-semibold text-gray-900 mb-2">備考</h3>
@@ -0,0 +1,67 @@
+import React from 'react';
+import { MousePointer2, PenLine } from 'lucide-react';
+
+interface FreehandToolbarProps {
+  drawTab: 'point' | 'freehand';
+  onDrawTabChange: (tab: 'point' | 'freehand') => void;
+  tolerance: number; // mm
+  onToleranceChange: (tolerance: number) => void;
+  orthogonal: boolean;
+  onOrthogonalChange: (orthogonal: boolean) => void;
+}
+
+/**
+ * Switches outline drawing between clicking points and tracing freehand. A traced stroke is
+ * reduced to the corners that stray more than the tolerance from a straight edge.
+ */
+const FreehandToolbar: React.FC<FreehandToolbarProps> = ({
+  drawTab, onDrawTabChange, tolerance, onToleranceChange, orthogonal, onOrthogonalChange
+}) => {
+  const tabClass = (active: boolean) =>
+    `px-2 py-1 rounded-md flex items-center gap-1 transition-colors ${
+      active ? 'bg-white shadow-sm text-indigo-700 font-medium' : 'text-gray-500 hover:text-gray-700'
+    }`;
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-3 text-xs text-gray-600">
+      <div className="flex gap-1 p-0.5 bg-gray-100 rounded-lg">
+        <button onClick={() => onDrawTabChange('point')} className={tabClass(drawTab === 'point')}>
+          <MousePointer2 className="w-3 h-3" />
+          点で指定
+        </button>
+        <button onClick={() => onDrawTabChange('freehand')} className={tabClass(drawTab === 'freehand')}>
+          <PenLine className="w-3 h-3" />
+          フリーハンド
+        </button>
+      </div>
+      {drawTab === 'freehand' && (
+        <>
+          <label className="flex items-center gap-1">
+            許容誤差
+            <input
+              type="number"
+              min={10}
+              step={10}
+              value={tolerance}
+              onChange={(e) => onToleranceChange(Math.max(10, Number(e.target.value)))}
+              className="w-20 bg-white border border-gray-200 rounded px-2 py-1"
+            />
+            mm
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={orthogonal}
+              onChange={(e) => onOrthogonalChange(e.target.checked)}
+              className="w-4 h-4 text-indigo-600 rounded border-gray-300 focus:ring-indigo-500"
+            />
+            直角に整える
+          </label>
+          <span className="text-gray-400">ドラッグで輪郭をなぞり、離すと多角形になります</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FreehandToolbar;
@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { AlertCircle, Copy, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { ChairModel, FurnitureSet, FurnitureShape, FURNITURE_SHAPE_LABELS } from '../constants';
+import { getShape } from '../utils/furnitureShape';
+import {
+  NEW_TYPE_COLOR, CatalogChange, CatalogImportResult, validateFurnitureSet, resolveChairModel,
+  exportCatalogCsv, exportCatalogJson, parseCatalogFile, mergeCatalog
+} from '../utils/furnitureCatalog';
+import CatalogImportModal from './CatalogImportModal';
+
+interface FurnitureCatalogEditorProps {
+  types: FurnitureSet[];
+  chairModels: ChairModel[];
+  onChange: (types: FurnitureSet[]) => void;
+}
+
+// Labelled numeric / text field of the expanded type card
+const Field: React.FC<{
+  label: string;
+  value: string | number;
+  type?: 'text' | 'number';
+  unit?: string;
+  onChange: (value: string) => void;
+}> = ({ label, value, type = 'number', unit, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[10px] text-gray-500">{label}</span>
+    <div className="relative">
+      <input
+        type={type}
+        min={type === 'number' ? 0 : undefined}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`w-full pl-2 ${unit ? 'pr-7' : 'pr-2'} py-1 text-xs bg-white border border-gray-200 rounded`}
+      />
+      {unit && <span className="absolute right-2 top-1 text-[10px] text-gray-400">{unit}</span>}
+    </div>
+  </label>
+);
+
+// Import waiting for confirmation in the preview
+interface PendingImport extends CatalogImportResult {
+  fileName: string;
+  merged: FurnitureSet[];
+  changes: CatalogChange[];
+}
+
+const downloadText = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Editable furniture catalog: toggle, add, duplicate and delete types, and edit their
+ * dimensions, seats, chair model, price, colour, SKU and vendor. Invalid types are marked and skipped
+ * by the layout until fixed.
+ */
+const FurnitureCatalogEditor: React.FC<FurnitureCatalogEditorProps> = ({ types, chairModels, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      // BOM so that Excel opens the Japanese names as UTF-8
+      downloadText('\uFEFF' + exportCatalogCsv(types), `furniture-catalog-${date}.csv`, 'text/csv');
+    } else {
+      downloadText(exportCatalogJson(types), `furniture-catalog-${date}.json`, 'application/json');
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      const result = parseCatalogFile(file.name, evt.target?.result as string, chairModels);
+      const { types: merged, changes } = mergeCatalog(types, result.types);
+      setPendingImport({ ...result, fileName: file.name, merged, changes });
+    };
+    reader.readAsText(file);
+  };
+
+  const update = (id: string, patch: Partial<FurnitureSet>) => {
+    onChange(types.map(t => t.id === id ? { ...t, ...patch } : t));
+  };
+
+  // Round tables are as deep as they are wide, and an L-desk needs a return wing
+  const handleShapeChange = (type: FurnitureSet, shape: FurnitureShape) => {
+    const patch: Partial<FurnitureSet> = { shape };
+    if (shape === 'round') patch.tableDepth = type.tableWidth;
+    if (shape === 'lDesk' && !type.returnLength) patch.returnLength = type.tableDepth + 600;
+    update(type.id, patch);
+  };
+
+  const handleAdd = () => {
+    const type: FurnitureSet = {
+      id: `type-${crypto.randomUUID()}`,
+      name: `新しい家具${types.length + 1}`,
+      tableWidth: 1200,
+      tableDepth: 600,
+      chairCount: 2,
+      unitPrice: 40000,
+      color: NEW_TYPE_COLOR,
+      enabled: true
+    };
+    onChange([...types, type]);
+    setEditingId(type.id);
+  };
+
+  const handleDuplicate = (type: FurnitureSet) => {
+    const copy = { ...type, id: `type-${crypto.randomUUID()}`, name: `${type.name} のコピー` };
+    const index = types.findIndex(t => t.id === type.id);
+    onChange([...types.slice(0, index + 1), copy, ...types.slice(index + 1)]);
+    setEditingId(copy.id);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(types.filter(t => t.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <label className="flex-1 py-1.5 px-2 bg-white border border-gray-200 hover:border-indigo-300 hover:text-indigo-700 text-gray-600 rounded-lg text-xs font-medium flex items-center justify-center gap-1 cursor-pointer">
+          <Upload className="w-3 h-3" />
+          取り込み
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImport} className="hidden" />
+        </label>
+        <button
+          onClick={() => handleExport('csv')}
+          className="flex-1 py-1.5 px-2 bg-white border border-gray-200 hover:border-indigo-300 hover:text-indigo-700 text-gray-600 rounded-lg text-xs font-medium flex items-center justify-center gap-1"
+        >
+          <Download className="w-3 h-3" />
+          CSV
+        </button>
+        <button
+          onClick={() => handleExport('json')}
+          className="flex-1 py-1.5 px-2 bg-white border border-gray-200 hover:border-indigo-300 hover:text-indigo-700 text-gray-600 rounded-lg text-xs font-medium flex items-center justify-center gap-1"
+        >
+          <Download className="w-3 h-3" />
+          JSON
+        </button>
+      </div>
+
+      {types.map((type) => {
+        const chair = resolveChairModel(type, chairModels);
+        const shape = getShape(type);
+        const errors = validateFurnitureSet(type, chair);
+        const isEditing = editingId === type.id;
+        return (
+          <div
+            key={type.id}
+            className={`p-3 bg-gray-50 rounded-lg border space-y-2 ${errors.length > 0 ? 'border-red-200' : 'border-gray-100'}`}
+          >
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={type.enabled !== false}
+                onChange={() => update(type.id, { enabled: type.enabled === false })}
+                className="w-4 h-4 text-indigo-600 rounded border-gray-300 focus:ring-indigo-500"
+              />
+              <div className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: type.color }} />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 truncate">{type.name || '（名前なし）'}</div>
+                <div className="text-xs text-gray-500">
+                  {FURNITURE_SHAPE_LABELS[shape]} •{' '}
+                  {shape === 'round' ? `φ${type.tableWidth}` : `${type.tableWidth}x${type.tableDepth}`}mm •{' '}
+                  {shape === 'booth' ? `${type.chairCount}席` : `${chair.name}×${type.chairCount}`} • ¥{type.unitPrice.toLocaleString()}
+                  {type.maxQuantity !== undefined && ` • 在庫${type.maxQuantity}台`}
+                </div>
+              </div>
+              <button
+                onClick={() => setEditingId(isEditing ? null : type.id)}
+                className={`p-1 rounded ${isEditing ? 'text-indigo-600' : 'text-gray-400 hover:text-indigo-600'}`}
+                title="編集"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDuplicate(type)}
+                className="p-1 text-gray-400 hover:text-indigo-600 rounded"
+                title="複製"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(type.id)}
+                className="p-1 text-gray-400 hover:text-red-600 rounded"
+                title="家具を削除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {isEditing && (
+              <div className="space-y-2">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Field label="名前" type="text" value={type.name} onChange={(v) => update(type.id, { name: v })} />
+                  </div>
+                  <input
+                    type="color"
+                    value={type.color}
+                    onChange={(e) => update(type.id, { color: e.target.value })}
+                    className="w-8 h-7 p-0 bg-white border border-gray-200 rounded cursor-pointer"
+                    title="表示色"
+                  />
+                </div>
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] text-gray-500">形状</span>
+                  <select
+                    value={shape}
+                    onChange={(e) => handleShapeChange(type, e.target.value as FurnitureShape)}
+                    className="text-xs bg-white border border-gray-200 rounded px-2 py-1"
+                  >
+                    {(Object.keys(FURNITURE_SHAPE_LABELS) as FurnitureShape[]).map(key => (
+                      <option key={key} value={key}>{FURNITURE_SHAPE_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </label>
+                {shape === 'round' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Field
+                      label="直径"
+                      unit="mm"
+                      value={type.tableWidth}
+                      onChange={(v) => update(type.id, { tableWidth: Number(v), tableDepth: Number(v) })}
+                    />
+                    <Field label="席数" unit="席" value={type.chairCount} onChange={(v) => update(type.id, { chairCount: Number(v) })} />
+                  </div>
+                ) : (
+                  <div className={`grid gap-2 ${shape === 'lDesk' ? 'grid-cols-4' : 'grid-cols-3'}`}>
+                    <Field label="幅" unit="mm" value={type.tableWidth} onChange={(v) => update(type.id, { tableWidth: Number(v) })} />
+                    <Field label="奥行" unit="mm" value={type.tableDepth} onChange={(v) => update(type.id, { tableDepth: Number(v) })} />
+                    {shape === 'lDesk' && (
+                      <Field label="袖の長さ" unit="mm" value={type.returnLength ?? ''} onChange={(v) => update(type.id, { returnLength: Number(v) })} />
+                    )}
+                    <Field label="席数" unit="席" value={type.chairCount} onChange={(v) => update(type.id, { chairCount: Number(v) })} />
+                  </div>
+                )}
+                {shape !== 'booth' && <label className="flex flex-col gap-1">
+                  <span className="text-[10px] text-gray-500">椅子</span>
+                  <select
+                    value={chair.id}
+                    onChange={(e) => update(type.id, { chairModelId: e.target.value })}
+                    className="text-xs bg-white border border-gray-200 rounded px-2 py-1"
+                  >
+                    {chairModels.map(c => (
+                      <option key={c.id} value={c.id}>{c.name} ({c.width}x{c.depth}mm / ¥{c.unitPrice.toLocaleString()})</option>
+                    ))}
+                  </select>
+                </label>}
+                <div className="grid grid-cols-3 gap-2">
+                  <Field label="定価" unit="¥" value={type.listPrice ?? ''} onChange={(v) => update(type.id, { listPrice: v === '' ? undefined : Number(v) })} />
+                  <Field label="机単価（仕入）" unit="¥" value={type.unitPrice} onChange={(v) => update(type.id, { unitPrice: Number(v) })} />
+                  <Field label="在庫（空欄=無制限）" unit="台" value={type.maxQuantity ?? ''} onChange={(v) => update(type.id, { maxQuantity: v === '' ? undefined : Number(v) })} />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Field label="品番" type="text" value={type.sku ?? ''} onChange={(v) => update(type.id, { sku: v || undefined })} />
+                  <Field label="メーカー" type="text" value={type.vendor ?? ''} onChange={(v) => update(type.id, { vendor: v || undefined })} />
+                </div>
+              </div>
+            )}
+
+            {errors.length > 0 && (
+              <div className="flex items-start gap-1 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                <span>{errors.join(' / ')}（レイアウトには使用されません）</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={handleAdd}
+        className="w-full py-2 px-3 bg-white border border-dashed border-gray-300 hover:border-indigo-300 hover:text-indigo-700 text-gray-600 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        家具を追加
+      </button>
+
+      {pendingImport && (
+        <CatalogImportModal
+          fileName={pendingImport.fileName}
+          format={pendingImport.format}
+          changes={pendingImport.changes}
+          errors={pendingImport.errors}
+          unchanged={pendingImport.types.length - pendingImport.changes.length}
+          onApply={() => {
+            onChange(pendingImport.merged);
+            setPendingImport(null);
+          }}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FurnitureCatalogEditor;
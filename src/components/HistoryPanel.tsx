@@ -0,0 +1,81 @@
+import React from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { HistoryState } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: HistoryState<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onTravel: (steps: number) => void; // Negative: undo that many, positive: redo
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Undo / redo buttons and the list of edits. Clicking an edit goes back or forward to just
+ * after it; undone edits stay listed (greyed) until something new is edited.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onTravel }) => {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const { past, future } = history;
+
+  const buttonClass = 'p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button onClick={onUndo} disabled={past.length === 0} className={buttonClass} title="元に戻す (Ctrl+Z)">
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button onClick={onRedo} disabled={future.length === 0} className={buttonClass} title="やり直す (Ctrl+Shift+Z)">
+        <Redo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`${buttonClass} ${isOpen ? 'bg-gray-100' : ''}`}
+        title="編集履歴"
+      >
+        <History className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-xl shadow-lg p-2 text-sm">
+          <div className="px-2 py-1 text-xs font-medium text-gray-500">編集履歴</div>
+          <button
+            onClick={() => onTravel(-past.length)}
+            className={`w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50 ${past.length === 0 ? 'text-indigo-700 font-medium' : 'text-gray-600'}`}
+          >
+            最初の状態
+          </button>
+          {past.map((entry, i) => (
+            <button
+              key={entry.id}
+              onClick={() => onTravel(i + 1 - past.length)}
+              className={`w-full flex justify-between gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50 ${
+                i === past.length - 1 ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-gray-700'
+              }`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-xs text-gray-400 shrink-0">{formatTime(entry.time)}</span>
+            </button>
+          ))}
+          {future.map((entry, i) => (
+            <button
+              key={entry.id}
+              onClick={() => onTravel(i + 1)}
+              className="w-full flex justify-between gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50 text-gray-400"
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-xs shrink-0">{formatTime(entry.time)}</span>
+            </button>
+          ))}
+          {past.length === 0 && future.length === 0 && (
+            <p className="px-2 py-2 text-xs text-gray-400">まだ編集はありません。</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,21 +1,46 @@
 import React, { forwardRef, useImperativeHandle } from 'react';
+import { Maximize, Minus, Plus, Scan } from 'lucide-react';
 import { Stage, Layer, Image as KonvaImage, Line, Rect, Circle, Group, Text, Shape } from 'react-konva';
 import useImage from 'use-image';
 import { Point } from '../services/geminiService';
-import { PlacedItem } from '../utils/layoutEngine';
-import { CHAIR_DIMENSIONS } from '../constants';
+import { PlacedItem, LayoutZone } from '../utils/layoutEngine';
+import { ShapeSeat, getChairModel, getFurnitureGeometry } from '../utils/furnitureShape';
+import { RoomExit, getExitSegment, getDoorSwingZone } from '../utils/egress';
+import { SnapResult, snapPoint } from '../utils/snapping';
+import { rectanglePolygon, circlePolygon, PolygonEdit } from '../utils/geometry';
+import { ACCESSIBLE_SEAT, SnapSettings } from '../constants';
 
 export interface LayoutCanvasHandle {
   exportImage: () => void;
 }
 
+export type CanvasMode = 'view' | 'edit_polygon' | 'set_scale' | 'draw_polygon' | 'draw_hole' | 'draw_zone' | 'set_front' | 'set_exit' | 'set_door' | 'edit_items';
+
+// How a hole is drawn: point by point, or a rectangle / circle from two clicks (corner to
+// corner, centre to rim) for pillars
+export type HoleTool = 'polygon' | 'rect' | 'circle';
+
+// Modes in which edge clicks place an exit (plain opening or hinged door)
+const isExitMode = (mode: CanvasMode) => mode === 'set_exit' || mode === 'set_door';
+
+// Modes in which clicks add points to tempPoints
+const isDrawingMode = (mode: CanvasMode) =>
+  mode === 'draw_polygon' || mode === 'draw_hole' || mode === 'draw_zone';
+
+// Stroke colour of the polygon being drawn
+const DRAW_COLORS: Partial<Record<CanvasMode, string>> = {
+  draw_polygon: '#ef4444',
+  draw_hole: '#6b7280',
+  draw_zone: '#8b5cf6'
+};
+
 interface LayoutCanvasProps {
   imageUrl: string;
   polygon: Point[];
   items: PlacedItem[];
   scale: number; // pixels per mm
-  onPolygonChange?: (newPolygon: Point[]) => void;
-  mode: 'view' | 'edit_polygon' | 'set_scale' | 'draw_polygon' | 'draw_hole';
+  onPolygonChange?: (newPolygon: Point[], edit?: PolygonEdit) => void; // `edit` when a vertex was inserted or removed
+  mode: CanvasMode;
   scaleLine?: { start: Point; end: Point } | null;
   onScaleLineChange?: (line: { start: Point; end: Point }) => void;
   onFinishDrawing?: () => void;
@@ -25,8 +50,57 @@ interface LayoutCanvasProps {
   showDimensions?: boolean;
   hideGuides?: boolean;
   holes?: Point[][];
+  flaggedItemIds?: string[]; // Items drawn with a red outline (e.g. validation failures)
+  zones?: LayoutZone[];
+  frontEdgeIndex?: number | null; // Polygon edge marked as the classroom front
+  onFrontEdgeSelect?: (index: number) => void; // Edge clicked in 'set_front' mode
+  exits?: RoomExit[];
+  onExitAdd?: (edgeIndex: number, position: number) => void; // Edge clicked in 'set_exit' / 'set_door' mode
+  onExitRemove?: (id: string) => void; // Exit clicked in 'set_exit' / 'set_door' mode
+  egressPaths?: { points: Point[]; flagged: boolean }[]; // Walking routes to draw over the furniture
+  selectedItemId?: string | null; // Item outlined as selected in 'edit_items' mode
+  onItemSelect?: (id: string | null) => void; // Item clicked (null: empty space) in 'edit_items' mode
+  onItemDrag?: (id: string, position: Point) => void; // Item origin while it is being dragged
+  onItemDragEnd?: (id: string, position: Point) => void;
+  snapSettings?: SnapSettings; // Snapping of drawn points; none when unset
+  onHolesChange?: (holes: Point[][]) => void; // Hole reshaped in 'edit_polygon' mode
+  selectedHoleIndex?: number | null; // Hole outlined as selected in 'edit_polygon' mode
+  onHoleSelect?: (index: number | null) => void; // Hole clicked (null: empty space) in 'edit_polygon' mode
+  holeTool?: HoleTool; // Shape drawn in 'draw_hole' mode
+  onShapeComplete?: (points: Point[]) => void; // Rectangle or circle hole finished by its second click
+  freehand?: boolean; // Drawing modes trace the outline by dragging instead of clicking points
+  onFreehandComplete?: (stroke: Point[]) => void; // Raw traced stroke, in image px
+}
+
+// Zoom limits: the whole page fits at 1; at most this many screen px per image px
+const MAX_PIXEL_ZOOM = 8;
+const WHEEL_ZOOM_STEP = 1.1;
+// Screen px the pointer may move before a press counts as a pan rather than a click
+const PAN_THRESHOLD = 3;
+// Width of the minimap, in screen px
+const MINIMAP_WIDTH = 160;
+// Screen px within which drawn points snap to corners and edges
+const SNAP_TOLERANCE = 10;
+const SNAP_COLOR = '#d946ef';
+// Screen px the pointer must move before a traced stroke gets another point
+const STROKE_SPACING = 2;
+
+const SNAP_LABELS: Record<NonNullable<SnapResult['kind']>, string> = {
+  vertex: '頂点',
+  edge: '辺上',
+  angle: '角度',
+  grid: 'グリッド'
+};
+
+// Zoom factor and pan offset (screen px) on top of the fit-to-page scale
+interface Viewport {
+  zoom: number;
+  x: number;
+  y: number;
 }
 
+const PAGE_VIEW: Viewport = { zoom: 1, x: 0, y: 0 };
+
 // Helper to calculate distance between point and line segment
 function pDistance(x: number, y: number, x1: number, y1: number, x2: number, y2: number) {
   var A = x - x1;
@@ -75,15 +149,89 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
   onEdgeClick,
   showDimensions,
   hideGuides,
-  holes = []
+  holes = [],
+  flaggedItemIds = [],
+  zones = [],
+  frontEdgeIndex = null,
+  onFrontEdgeSelect,
+  exits = [],
+  onExitAdd,
+  onExitRemove,
+  egressPaths = [],
+  selectedItemId = null,
+  onItemSelect,
+  onItemDrag,
+  onItemDragEnd,
+  snapSettings,
+  onHolesChange,
+  selectedHoleIndex = null,
+  onHoleSelect,
+  holeTool = 'polygon',
+  onShapeComplete,
+  freehand = false,
+  onFreehandComplete
 }, ref) => {
   const [image] = useImage(imageUrl);
   const stageRef = React.useRef<any>(null);
+  const layerRef = React.useRef<any>(null);
+
+  // The stage fills the width of its container and follows it when the window is resized
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = React.useState(0);
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [image]);
+
+  // Zoom and pan
+  const [view, setView] = React.useState<Viewport>(PAGE_VIEW);
+  const [isPanning, setIsPanning] = React.useState(false);
+  const [spaceHeld, setSpaceHeld] = React.useState(false);
+  const hoveredRef = React.useRef(false);
+  const panRef = React.useRef<{ start: Point; view: Viewport; moved: boolean } | null>(null);
+  // Set when a press turned into a pan, so the click that follows is ignored
+  const suppressClickRef = React.useRef(false);
+
+  // A new plan starts fully visible
+  React.useEffect(() => {
+    setView(PAGE_VIEW);
+  }, [imageUrl]);
+
+  // Space + drag pans while the pointer is over the canvas
+  React.useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => (e.target as HTMLElement).closest('input, select, textarea') !== null;
+    const down = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || !hoveredRef.current || isTyping(e)) return;
+      e.preventDefault(); // Don't scroll the page
+      setSpaceHeld(true);
+    };
+    const up = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+    };
+  }, []);
 
   useImperativeHandle(ref, () => ({
     exportImage: () => {
-      if (stageRef.current) {
-        const uri = stageRef.current.toDataURL({ pixelRatio: 2 });
+      const stage = stageRef.current;
+      const layer = layerRef.current;
+      if (stage && layer && image) {
+        // Export the whole page, whatever part is zoomed in on
+        const saved = { scale: layer.scale(), position: layer.position() };
+        const pageScale = stage.width() / image.width;
+        layer.scale({ x: pageScale, y: pageScale });
+        layer.position({ x: 0, y: 0 });
+        const uri = stage.toDataURL({ pixelRatio: 2 });
+        layer.scale(saved.scale);
+        layer.position(saved.position);
         const link = document.createElement('a');
         link.download = `layout-plan-${new Date().toISOString().slice(0,10)}.png`;
         link.href = uri;
@@ -96,15 +244,25 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
   
   // Drawing state
   const [mousePos, setMousePos] = React.useState<Point | null>(null);
+  // What the point under the pointer snapped to, shown next to it
+  const [snapHint, setSnapHint] = React.useState<SnapResult | null>(null);
 
   // Hover state for edge dimensions
   const [hoveredEdge, setHoveredEdge] = React.useState<{ index: number; x: number; y: number; length: number } | null>(null);
 
+  const isDrawing = isDrawingMode(mode);
+  const quickShape = mode === 'draw_hole' && holeTool !== 'polygon' ? holeTool : null;
+  const isTracing = freehand && isDrawing && !quickShape;
+  // Freehand stroke being traced (null when the pointer is up)
+  const [stroke, setStroke] = React.useState<Point[] | null>(null);
+  const drawColor = DRAW_COLORS[mode] ?? '#ef4444';
+
   // Reset mouse pos when entering draw mode
   React.useEffect(() => {
-    if (mode === 'draw_polygon' || mode === 'draw_hole') {
+    if (isDrawingMode(mode)) {
       setMousePos(null);
     }
+    setSnapHint(null);
   }, [mode]);
 
   // Handle polygon dragging
@@ -119,10 +277,9 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
   const handleLineClick = (e: any) => {
     if (mode !== 'edit_polygon' || !onPolygonChange) return;
     
-    const stage = e.target.getStage();
-    const pointer = stage.getRelativePointerPosition();
-    const x = pointer.x;
-    const y = pointer.y;
+    const pointer = getStagePointerPos();
+    if (!pointer) return;
+    const { x, y } = pointer;
 
     // Find the closest segment to insert the point
     let minDistance = Infinity;
@@ -142,7 +299,24 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
     if (insertIndex !== -1) {
       const newPoly = [...polygon];
       newPoly.splice(insertIndex, 0, { x, y });
-      onPolygonChange(newPoly);
+      onPolygonChange(newPoly, { kind: 'insert', index: insertIndex });
+    }
+  };
+
+  // Edge clicks pick the classroom front, place an exit, or insert a vertex depending on the mode
+  const handleEdgeClick = (index: number, e: any) => {
+    if (mode === 'set_front') {
+      onFrontEdgeSelect?.(index);
+    } else if (isExitMode(mode)) {
+      const pos = getStagePointerPos();
+      if (!pos || !onExitAdd) return;
+      const p1 = polygon[index];
+      const p2 = polygon[(index + 1) % polygon.length];
+      const lenSq = Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2);
+      const t = lenSq === 0 ? 0 : ((pos.x - p1.x) * (p2.x - p1.x) + (pos.y - p1.y) * (p2.y - p1.y)) / lenSq;
+      onExitAdd(index, Math.max(0, Math.min(1, t)));
+    } else {
+      handleLineClick(e);
     }
   };
 
@@ -153,9 +327,42 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
 
     const newPoly = [...polygon];
     newPoly.splice(index, 1);
-    onPolygonChange(newPoly);
+    onPolygonChange(newPoly, { kind: 'remove', index });
+  };
+
+  // Holes are edited like the room: drag a vertex, click an edge to insert one, double-click to remove
+  const updateHole = (holeIndex: number, points: Point[]) => {
+    onHolesChange?.(holes.map((hole, i) => i === holeIndex ? points : hole));
+  };
+
+  const handleHolePointDragMove = (holeIndex: number, index: number, e: any) => {
+    const points = [...holes[holeIndex]];
+    points[index] = { x: e.target.x(), y: e.target.y() };
+    updateHole(holeIndex, points);
+  };
+
+  const handleHoleEdgeClick = (holeIndex: number, index: number, e: any) => {
+    if (mode !== 'edit_polygon') return;
+    e.cancelBubble = true; // Keep the hole selected
+    const pos = getStagePointerPos();
+    if (!pos) return;
+    const points = [...holes[holeIndex]];
+    points.splice(index + 1, 0, pos);
+    updateHole(holeIndex, points);
+    onHoleSelect?.(holeIndex);
   };
 
+  const handleHolePointDblClick = (holeIndex: number, index: number) => {
+    if (mode !== 'edit_polygon' || holes[holeIndex].length <= 3) return;
+    updateHole(holeIndex, holes[holeIndex].filter((_, i) => i !== index));
+  };
+
+  // Outline of a rectangle or circle hole from its first click to `p`
+  const getQuickShape = (tool: HoleTool, start: Point, p: Point): Point[] =>
+    tool === 'circle'
+      ? circlePolygon(start, Math.hypot(p.x - start.x, p.y - start.y))
+      : rectanglePolygon(start, p);
+
   // Handle scale line dragging
   const handleScalePointDrag = (point: 'start' | 'end', e: any) => {
     if (!onScaleLineChange || !scaleLine) return;
@@ -186,13 +393,79 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
 
   if (!image) return <div>画像を読み込み中...</div>;
 
-  // Calculate canvas size based on image aspect ratio, max width 800
+  // Canvas size: the container's width (less the stage border) at the image's aspect ratio
   const aspectRatio = image.width / image.height;
-  const width = Math.min(800, window.innerWidth - 40);
+  const width = Math.max(1, (containerWidth || Math.min(800, window.innerWidth - 40)) - 2);
   const height = width / aspectRatio;
   
-  // Scale factor for display (image pixels to screen pixels)
-  const displayScale = width / image.width;
+  // Scale factor for display (image pixels to screen pixels): the page fit times the zoom.
+  // Sizes meant to stay constant on screen (strokes, handles, hit lines) divide by it.
+  const pageScale = width / image.width;
+  const displayScale = pageScale * view.zoom;
+  const maxZoom = Math.max(1, MAX_PIXEL_ZOOM / pageScale);
+
+  // Zooms to `zoom`, keeping the image point under the screen point `anchor` in place
+  const zoomAt = (zoom: number, anchor: Point) => {
+    const next = Math.min(maxZoom, Math.max(1, zoom));
+    const imageX = (anchor.x - view.x) / displayScale;
+    const imageY = (anchor.y - view.y) / displayScale;
+    setView({ zoom: next, x: anchor.x - imageX * pageScale * next, y: anchor.y - imageY * pageScale * next });
+  };
+
+  // Centres the image point `p` in the canvas at the current zoom
+  const centerOn = (p: Point, zoom = view.zoom) => {
+    setView({ zoom, x: width / 2 - p.x * pageScale * zoom, y: height / 2 - p.y * pageScale * zoom });
+  };
+
+  const fitToRoom = () => {
+    if (polygon.length < 3) return;
+    const xs = polygon.map(p => p.x);
+    const ys = polygon.map(p => p.y);
+    const w = Math.max(...xs) - Math.min(...xs);
+    const h = Math.max(...ys) - Math.min(...ys);
+    // 5% margin around the room
+    const zoom = Math.min(maxZoom, Math.max(1, Math.min(width / (w * 1.1), height / (h * 1.1)) / pageScale));
+    centerOn({ x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 }, zoom);
+  };
+
+  const handleWheel = (e: any) => {
+    e.evt.preventDefault();
+    const pointer = stageRef.current?.getPointerPosition();
+    if (!pointer) return;
+    zoomAt(e.evt.deltaY < 0 ? view.zoom * WHEEL_ZOOM_STEP : view.zoom / WHEEL_ZOOM_STEP, pointer);
+  };
+
+  // Pans with the middle button or space + drag anywhere, and with a plain drag on the
+  // background where clicks do nothing else
+  const handleMouseDown = (e: any) => {
+    const onBackground = e.target === e.target.getStage() || e.target.getClassName() === 'Image';
+    const plainPan = e.evt.button === 0 && onBackground && (mode === 'view' || mode === 'edit_items');
+    if (!(e.evt.button === 1 || (e.evt.button === 0 && spaceHeld) || plainPan)) return;
+    const pointer = stageRef.current?.getPointerPosition();
+    if (!pointer) return;
+    e.evt.preventDefault();
+    panRef.current = { start: pointer, view, moved: false };
+    suppressClickRef.current = false;
+  };
+
+  const handlePanMove = () => {
+    const pan = panRef.current;
+    const pointer = stageRef.current?.getPointerPosition();
+    if (!pan || !pointer) return false;
+    const dx = pointer.x - pan.start.x;
+    const dy = pointer.y - pan.start.y;
+    if (!pan.moved && Math.hypot(dx, dy) < PAN_THRESHOLD) return true;
+    pan.moved = true;
+    setIsPanning(true);
+    setView({ ...pan.view, x: pan.view.x + dx, y: pan.view.y + dy });
+    return true;
+  };
+
+  const handleMouseUp = () => {
+    if (panRef.current?.moved) suppressClickRef.current = true;
+    panRef.current = null;
+    setIsPanning(false);
+  };
 
   // Calculate polygon centroid for label offset
   const getPolygonCentroid = () => {
@@ -203,67 +476,143 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
   };
   const centroid = getPolygonCentroid();
 
+  // Draws one chair at its seat, the back rest on the side away from the table
+  const renderChair = (item: PlacedItem, seat: ShapeSeat, key: number) => {
+    const chair = getChairModel(item.type);
+    const chairW = chair.width * scale;
+    const chairD = chair.depth * scale;
+    const rotation = (Math.atan2(seat.outward.y, seat.outward.x) * 180) / Math.PI - 90;
+
+    return (
+      <Group key={`chair-${key}`} x={seat.center.x * scale} y={seat.center.y * scale} rotation={rotation}>
+        {/* Chair Body */}
+        <Rect
+          x={-chairW / 2}
+          y={-chairD / 2}
+          width={chairW}
+          height={chairD * 0.7} // Visual depth slightly less than full footprint
+          fill="white"
+          stroke="black"
+          strokeWidth={1 / displayScale}
+          cornerRadius={4}
+        />
+        {/* Chair Back */}
+        <Rect
+          x={-chairW / 2}
+          y={0}
+          width={chairW}
+          height={chairD * 0.2}
+          fill="white"
+          stroke="black"
+          strokeWidth={1 / displayScale}
+          cornerRadius={2}
+        />
+      </Group>
+    );
+  };
+
   // --- Drawing Mode Handlers ---
 
-  const getStagePointerPos = () => {
-    const stage = stageRef.current;
-    if (!stage) return null;
-    const pointer = stage.getRelativePointerPosition();
-    if (!pointer) return null;
-    // Convert to image coordinates
-    return {
-      x: pointer.x / displayScale,
-      y: pointer.y / displayScale
-    };
+  // Pointer in image coordinates; the layer carries the zoom and pan
+  const getStagePointerPos = (): Point | null => layerRef.current?.getRelativePointerPosition() ?? null;
+
+  /**
+   * Where a click would put the next point. Shift locks the segment to an axis as before;
+   * otherwise the point snaps to corners, edges, angles and the grid as configured, and Alt
+   * turns snapping off for a single point.
+   */
+  const resolveDrawPoint = (raw: Point, evt: MouseEvent): { point: Point; snap: SnapResult | null } => {
+    const lastPoint = tempPoints[tempPoints.length - 1];
+    if (evt.shiftKey && lastPoint) {
+      const dx = Math.abs(raw.x - lastPoint.x);
+      const dy = Math.abs(raw.y - lastPoint.y);
+      // Lock Y for a horizontal line, X for a vertical one
+      return { point: dx > dy ? { x: raw.x, y: lastPoint.y } : { x: lastPoint.x, y: raw.y }, snap: null };
+    }
+    if (!snapSettings || evt.altKey) return { point: raw, snap: null };
+
+    const snap = snapPoint(raw, {
+      outlines: [polygon, ...holes, ...zones.map(z => z.polygon)].filter(o => o.length >= 2),
+      path: tempPoints,
+      scale,
+      tolerance: SNAP_TOLERANCE / displayScale,
+      // The grid starts at the room's first corner so walls fall on grid lines
+      gridOrigin: polygon[0] ?? tempPoints[0] ?? { x: 0, y: 0 }
+    }, snapSettings);
+    return { point: snap.point, snap: snap.kind ? snap : null };
   };
 
   const handleStageMouseMove = (e: any) => {
-    let pos = getStagePointerPos();
-    if (!pos) return;
+    if (handlePanMove()) return;
+    const raw = getStagePointerPos();
+    if (!raw) return;
 
-    // Shift key logic for axis locking
-    // Applies to both 'draw_polygon' (adding points) and 'set_scale' (drawing scale line)
-    if (e.evt.shiftKey && tempPoints.length > 0) {
-      const lastPoint = tempPoints[tempPoints.length - 1];
-      const dx = Math.abs(pos.x - lastPoint.x);
-      const dy = Math.abs(pos.y - lastPoint.y);
-      
-      if (dx > dy) {
-        pos.y = lastPoint.y; // Lock Y (Horizontal line)
-      } else {
-        pos.x = lastPoint.x; // Lock X (Vertical line)
-      }
+    // Applies to both drawing modes (adding points) and 'set_scale' (drawing scale line);
+    // a traced stroke follows the pointer as it is
+    if (isTracing) {
+      setMousePos(raw);
+      setSnapHint(null);
+    } else if (isDrawing || (mode === 'set_scale' && !scaleLine)) {
+      const { point, snap } = resolveDrawPoint(raw, e.evt);
+      setMousePos(point);
+      setSnapHint(snap);
     }
+  };
 
-    if (mode === 'draw_polygon' || mode === 'draw_hole') {
-      setMousePos(pos);
-    } else if (mode === 'set_scale' && !scaleLine) {
-      // Preview for scale line drawing
-      setMousePos(pos);
+  // Freehand tracing: press, drag around the outline and release; works with a pen too
+  const handleStrokeStart = (e: any) => {
+    if (!isTracing || e.evt.button !== 0 || spaceHeld) return;
+    const pos = getStagePointerPos();
+    if (pos) setStroke([pos]);
+  };
+
+  const handleStrokeMove = () => {
+    if (!stroke) return;
+    const pos = getStagePointerPos();
+    const last = stroke[stroke.length - 1];
+    if (pos && Math.hypot(pos.x - last.x, pos.y - last.y) >= STROKE_SPACING / displayScale) {
+      setStroke([...stroke, pos]);
     }
   };
 
-  const handleStageClick = (e: any) => {
-    let pos = getStagePointerPos();
-    if (!pos) return;
+  const handleStrokeEnd = () => {
+    if (!stroke) return;
+    setStroke(null);
+    onFreehandComplete?.(stroke);
+  };
 
-    // Shift key logic (same as mouse move to ensure click matches preview)
-    if (e.evt.shiftKey && tempPoints.length > 0) {
-      const lastPoint = tempPoints[tempPoints.length - 1];
-      const dx = Math.abs(pos.x - lastPoint.x);
-      const dy = Math.abs(pos.y - lastPoint.y);
-      
-      if (dx > dy) {
-        pos.y = lastPoint.y;
-      } else {
-        pos.x = lastPoint.x;
-      }
+  const handleStageClick = (e: any) => {
+    // The end of a pan, or a press with space held, is not a click
+    if (suppressClickRef.current || spaceHeld) {
+      suppressClickRef.current = false;
+      return;
     }
+    // Releasing a traced stroke is not a click either
+    if (isTracing) return;
+    const raw = getStagePointerPos();
+    if (!raw) return;
+    // Same as mouse move so the click lands where the preview showed
+    const pos = isDrawing || mode === 'set_scale' ? resolveDrawPoint(raw, e.evt).point : raw;
 
-    if (mode === 'draw_polygon' || mode === 'draw_hole') {
+    if (quickShape && tempPoints.length > 0) {
+      // Second click finishes a rectangle or circle; skip it when it has no size
+      const start = tempPoints[0];
+      const empty = quickShape === 'circle'
+        ? pos.x === start.x && pos.y === start.y
+        : pos.x === start.x || pos.y === start.y;
+      if (empty) return;
+      onShapeComplete?.(getQuickShape(quickShape, start, pos));
+      onTempPointsChange?.([]);
+    } else if (isDrawing) {
       if (onTempPointsChange) {
         onTempPointsChange([...tempPoints, pos]);
       }
+    } else if (mode === 'edit_polygon') {
+      // Holes stop the click from bubbling, so this deselects
+      onHoleSelect?.(null);
+    } else if (mode === 'edit_items') {
+      // Items stop the click from bubbling, so this is a click on empty space
+      onItemSelect?.(null);
     } else if (mode === 'set_scale' && !scaleLine) {
       // Handle scale line click with the (potentially shifted) pos
       if (!onScaleLineChange) return;
@@ -279,374 +628,765 @@ const LayoutCanvas = forwardRef<LayoutCanvasHandle, LayoutCanvasProps>(({
     }
   };
 
+  // Clicking the first point closes the shape; the parent decides whether it becomes the room,
+  // a hole or a zone
   const handleFinishDrawing = () => {
-    if (tempPoints.length >= 3 && onPolygonChange) {
-      onPolygonChange(tempPoints);
-      if (onFinishDrawing) onFinishDrawing();
+    if (tempPoints.length < 3) return;
+    if (onFinishDrawing) {
+      onFinishDrawing();
+    } else {
+      onPolygonChange?.(tempPoints);
     }
   };
 
   return (
-    <Stage 
-      width={width} 
-      height={height} 
-      ref={stageRef} 
-      className={`border border-gray-200 shadow-sm rounded-lg overflow-hidden ${mode === 'draw_polygon' || mode === 'draw_hole' ? 'cursor-crosshair' : ''}`}
-      onMouseMove={handleStageMouseMove}
-      onClick={handleStageClick}
-      onTap={handleStageClick}
-    >
-      <Layer scaleX={displayScale} scaleY={displayScale}>
-        <KonvaImage image={image} />
+    <div ref={containerRef} className="relative w-full">
+      <Stage 
+        width={width} 
+        height={height} 
+        ref={stageRef} 
+        className={`border border-gray-200 shadow-sm rounded-lg overflow-hidden ${
+          isPanning ? 'cursor-grabbing' : spaceHeld ? 'cursor-grab'
+            : isDrawing ? 'cursor-crosshair' : mode === 'set_front' || isExitMode(mode) ? 'cursor-pointer' : mode === 'edit_items' ? 'cursor-move' : ''
+        }`}
+        onMouseMove={handleStageMouseMove}
+        onMouseDown={handleMouseDown}
+        onMouseUp={handleMouseUp}
+        onPointerDown={handleStrokeStart}
+        onPointerMove={handleStrokeMove}
+        onPointerUp={handleStrokeEnd}
+        onMouseEnter={() => { hoveredRef.current = true; }}
+        onMouseLeave={() => {
+          hoveredRef.current = false;
+          handleMouseUp();
+          handleStrokeEnd();
+        }}
+        onWheel={handleWheel}
+        onClick={handleStageClick}
+        onTap={handleStageClick}
+      >
+        <Layer ref={layerRef} scaleX={displayScale} scaleY={displayScale} x={view.x} y={view.y}>
+          <KonvaImage image={image} />
         
-        {/* --- View / Edit Mode --- */}
-        {mode !== 'draw_polygon' && !hideGuides && (
-          <Group>
-            {/* Room Polygon (Visual) - Using a Group with clipping logic for holes */}
-            {/* Since Konva doesn't support direct hole subtraction easily in one shape, 
-                we can draw the main polygon, and then draw holes with 'destination-out' 
-                composite operation to "cut" them out if we were using a cached canvas, 
-                but for simple vector lines, we might just draw holes on top.
+          {/* --- View / Edit Mode --- */}
+          {mode !== 'draw_polygon' && !hideGuides && (
+            <Group>
+              {/* Room Polygon (Visual) - Using a Group with clipping logic for holes */}
+              {/* Since Konva doesn't support direct hole subtraction easily in one shape, 
+                  we can draw the main polygon, and then draw holes with 'destination-out' 
+                  composite operation to "cut" them out if we were using a cached canvas, 
+                  but for simple vector lines, we might just draw holes on top.
                 
-                However, the user wants the "red fill" to NOT be present in the holes.
-                The easiest way in Konva without complex path data strings is to use the 
-                even-odd winding rule if we could combine paths, but Konva's Line doesn't support multiple paths easily.
+                  However, the user wants the "red fill" to NOT be present in the holes.
+                  The easiest way in Konva without complex path data strings is to use the 
+                  even-odd winding rule if we could combine paths, but Konva's Line doesn't support multiple paths easily.
                 
-                Alternative: Draw the main polygon with fill. Then draw holes with a fill color that matches the background? 
-                No, background is an image.
+                  Alternative: Draw the main polygon with fill. Then draw holes with a fill color that matches the background? 
+                  No, background is an image.
                 
-                Better approach: Use a Path shape with SVG path data that describes the polygon AND the holes.
-            */}
+                  Better approach: Use a Path shape with SVG path data that describes the polygon AND the holes.
+              */}
             
-            {/* We will construct an SVG path string. 
-                M x0 y0 L x1 y1 ... Z 
-                M hx0 hy0 L hx1 hy1 ... Z 
-                uses even-odd rule by default in many renderers or we can specify fill-rule.
-            */}
+              {/* We will construct an SVG path string. 
+                  M x0 y0 L x1 y1 ... Z 
+                  M hx0 hy0 L hx1 hy1 ... Z 
+                  uses even-odd rule by default in many renderers or we can specify fill-rule.
+              */}
             
-            <Line
-                points={polygon.flatMap(p => [p.x, p.y])}
-                closed
-                stroke="#ef4444"
-                strokeWidth={2 / displayScale}
-                // We don't fill here, we use a separate shape for the fill with holes
-                fillEnabled={false}
-            />
+              <Line
+                  points={polygon.flatMap(p => [p.x, p.y])}
+                  closed
+                  stroke="#ef4444"
+                  strokeWidth={2 / displayScale}
+                  // We don't fill here, we use a separate shape for the fill with holes
+                  fillEnabled={false}
+              />
             
-            {/* Fill Shape with Holes */}
-            {/* We use the native Canvas API via a Custom shape or just rely on the fact that 
-                Konva doesn't easily support holes in simple Lines. 
+              {/* Fill Shape with Holes */}
+              {/* We use the native Canvas API via a Custom shape or just rely on the fact that 
+                  Konva doesn't easily support holes in simple Lines. 
                 
-                Let's try drawing the holes on top with a special composite operation?
-                Actually, simpler: Just don't fill the main polygon above. 
-                Draw a Shape that handles the fill.
-            */}
+                  Let's try drawing the holes on top with a special composite operation?
+                  Actually, simpler: Just don't fill the main polygon above. 
+                  Draw a Shape that handles the fill.
+              */}
             
-            {/* Custom Shape for Polygon with Holes Fill */}
-            <Shape
-              sceneFunc={(context, shape) => {
-                context.beginPath();
+              {/* Custom Shape for Polygon with Holes Fill */}
+              <Shape
+                sceneFunc={(context, shape) => {
+                  context.beginPath();
                 
-                // Draw main polygon
-                if (polygon.length > 0) {
-                  context.moveTo(polygon[0].x, polygon[0].y);
-                  for (let i = 1; i < polygon.length; i++) {
-                    context.lineTo(polygon[i].x, polygon[i].y);
-                  }
-                  context.closePath();
-                }
-
-                // Draw holes (counter-clockwise or just separate sub-paths)
-                // The winding rule 'evenodd' usually handles this if we just add them as subpaths
-                holes.forEach(hole => {
-                  if (hole.length > 0) {
-                    context.moveTo(hole[0].x, hole[0].y);
-                    for (let i = 1; i < hole.length; i++) {
-                      context.lineTo(hole[i].x, hole[i].y);
+                  // Draw main polygon
+                  if (polygon.length > 0) {
+                    context.moveTo(polygon[0].x, polygon[0].y);
+                    for (let i = 1; i < polygon.length; i++) {
+                      context.lineTo(polygon[i].x, polygon[i].y);
                     }
                     context.closePath();
                   }
-                });
 
-                context.fillStrokeShape(shape);
-              }}
-              fill="rgba(239, 68, 68, 0.1)"
-              fillRule="evenodd"
-              listening={false} // Let clicks pass through to the lines/image if needed
-            />
+                  // Draw holes (counter-clockwise or just separate sub-paths)
+                  // The winding rule 'evenodd' usually handles this if we just add them as subpaths
+                  holes.forEach(hole => {
+                    if (hole.length > 0) {
+                      context.moveTo(hole[0].x, hole[0].y);
+                      for (let i = 1; i < hole.length; i++) {
+                        context.lineTo(hole[i].x, hole[i].y);
+                      }
+                      context.closePath();
+                    }
+                  });
 
-            {/* Invisible Hit Lines for Hover Detection */}
-            {polygon.map((p1, i) => {
-              const p2 = polygon[(i + 1) % polygon.length];
-              const distPx = Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
-              const distMm = distPx / scale;
+                  context.fillStrokeShape(shape);
+                }}
+                fill="rgba(239, 68, 68, 0.1)"
+                fillRule="evenodd"
+                listening={false} // Let clicks pass through to the lines/image if needed
+              />
 
-              return (
-                <Line
-                  key={`hit-edge-${i}`}
-                  points={[p1.x, p1.y, p2.x, p2.y]}
-                  stroke="transparent"
-                  strokeWidth={20 / displayScale}
-                  onMouseEnter={(e) => {
-                    const stage = e.target.getStage();
-                    if (stage) {
-                      const ptr = stage.getRelativePointerPosition();
+              {/* Invisible Hit Lines for Hover Detection */}
+              {polygon.map((p1, i) => {
+                const p2 = polygon[(i + 1) % polygon.length];
+                const distPx = Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+                const distMm = distPx / scale;
+
+                return (
+                  <Line
+                    key={`hit-edge-${i}`}
+                    points={[p1.x, p1.y, p2.x, p2.y]}
+                    stroke="transparent"
+                    strokeWidth={20 / displayScale}
+                    onMouseEnter={() => {
+                      const ptr = getStagePointerPos();
                       if (ptr) {
-                        setHoveredEdge({
-                          index: i,
-                          x: ptr.x / displayScale,
-                          y: ptr.y / displayScale,
-                          length: distMm
-                        });
+                        setHoveredEdge({ index: i, x: ptr.x, y: ptr.y, length: distMm });
                       }
-                    }
-                  }}
-                  onMouseMove={(e) => {
-                    const stage = e.target.getStage();
-                    if (stage) {
-                      const ptr = stage.getRelativePointerPosition();
+                    }}
+                    onMouseMove={() => {
+                      const ptr = getStagePointerPos();
                       if (ptr) {
-                        setHoveredEdge(prev => prev ? { ...prev, x: ptr.x / displayScale, y: ptr.y / displayScale } : null);
+                        setHoveredEdge(prev => prev ? { ...prev, x: ptr.x, y: ptr.y } : null);
                       }
-                    }
-                  }}
-                  onMouseLeave={() => setHoveredEdge(null)}
-                  onClick={handleLineClick}
-                  onTap={handleLineClick}
-                />
-              );
-            })}
+                    }}
+                    onMouseLeave={() => setHoveredEdge(null)}
+                    onClick={(e) => handleEdgeClick(i, e)}
+                    onTap={(e) => handleEdgeClick(i, e)}
+                  />
+                );
+              })}
             
-            {/* Holes Outlines */}
-            {holes.map((hole, i) => (
-              <Line
-                key={`hole-${i}`}
-                points={hole.flatMap(p => [p.x, p.y])}
-                closed
-                stroke={hideGuides ? "transparent" : "#9ca3af"} // Light gray border
-                strokeWidth={hideGuides ? 0 : 2 / displayScale}
-                fillEnabled={false} // No fill for the outline itself, handled by the Shape above
-                dash={[5, 5]}
-              />
-            ))}
-
-            {/* Polygon Handles (only in edit mode) */}
-            {mode === 'edit_polygon' && polygon.map((p, i) => (
-              <Circle
-                key={`poly-${i}`}
-                x={p.x}
-                y={p.y}
-                radius={6 / displayScale}
-                fill="#ef4444"
-                draggable
-                onDragMove={(e) => handlePointDragMove(i, e)}
-                onDblClick={() => handlePointDblClick(i)}
-                onDblTap={() => handlePointDblClick(i)}
-                stroke="white"
-                strokeWidth={1 / displayScale}
-              />
-            ))}
-          </Group>
-        )}
-
-        {/* Hover Tooltip for Edge Length */}
-        {hoveredEdge && !hideGuides && (
-          <Group x={hoveredEdge.x} y={hoveredEdge.y - (20 / displayScale)}>
-            <Rect
-              x={-40 / displayScale}
-              y={-15 / displayScale}
-              width={80 / displayScale}
-              height={30 / displayScale}
-              fill="rgba(0, 0, 0, 0.8)"
-              cornerRadius={4 / displayScale}
-            />
-            <Text
-              text={`${Math.round(hoveredEdge.length)}mm`}
-              fontSize={14 / displayScale}
-              fill="white"
-              align="center"
-              verticalAlign="middle"
-              width={80 / displayScale}
-              height={30 / displayScale}
-              x={-40 / displayScale}
-              y={-15 / displayScale}
-            />
-          </Group>
-        )}
+              {/* Holes Outlines (clickable to select while editing the shape) */}
+              {holes.map((hole, i) => {
+                const selected = mode === 'edit_polygon' && i === selectedHoleIndex;
+                const select = (e: any) => {
+                  if (mode !== 'edit_polygon') return;
+                  e.cancelBubble = true; // Don't deselect on the stage below
+                  onHoleSelect?.(i);
+                };
+                return (
+                  <Line
+                    key={`hole-${i}`}
+                    points={hole.flatMap(p => [p.x, p.y])}
+                    closed
+                    stroke={hideGuides ? "transparent" : selected ? "#4f46e5" : "#9ca3af"} // Light gray border
+                    strokeWidth={hideGuides ? 0 : (selected ? 3 : 2) / displayScale}
+                    // Only filled (for hit detection) while editing; otherwise handled by the Shape above
+                    fillEnabled={mode === 'edit_polygon'}
+                    fill={selected ? "rgba(79, 70, 229, 0.15)" : "rgba(107, 114, 128, 0.05)"}
+                    dash={[5 / displayScale, 5 / displayScale]}
+                    listening={mode === 'edit_polygon'}
+                    onClick={select}
+                    onTap={select}
+                  />
+                );
+              })}
 
-        {/* --- Drawing Mode --- */}
-        {(mode === 'draw_polygon' || mode === 'draw_hole') && (
-          <>
-            {/* Confirmed Lines */}
-            <Line
-              points={tempPoints.flatMap(p => [p.x, p.y])}
-              stroke={mode === 'draw_hole' ? "#6b7280" : "#ef4444"}
-              strokeWidth={2 / displayScale}
-              dash={mode === 'draw_hole' ? [10, 5] : undefined}
-            />
-            
-            {/* Rubber Band (Preview Line) */}
-            {tempPoints.length > 0 && mousePos && (
-              <Line
-                points={[
-                  tempPoints[tempPoints.length - 1].x,
-                  tempPoints[tempPoints.length - 1].y,
-                  mousePos.x,
-                  mousePos.y
-                ]}
-                stroke={mode === 'draw_hole' ? "#6b7280" : "#ef4444"}
-                strokeWidth={1 / displayScale}
-                dash={[5 / displayScale, 5 / displayScale]}
-              />
-            )}
-
-            {/* Vertices */}
-            {tempPoints.map((p, i) => (
-              <Circle
-                key={`temp-${i}`}
-                x={p.x}
-                y={p.y}
-                stroke="white"
-                strokeWidth={1 / displayScale}
-                // Allow clicking first point to close
-                onClick={(e) => {
-                  if (i === 0 && tempPoints.length >= 3) {
-                    e.cancelBubble = true; // Prevent stage click
-                    handleFinishDrawing();
-                  }
-                }}
-                onTap={(e) => {
-                  if (i === 0 && tempPoints.length >= 3) {
-                    e.cancelBubble = true;
-                    handleFinishDrawing();
-                  }
-                }}
-                // Highlight start point when ready to close
-                fill={i === 0 && tempPoints.length >= 3 ? "#10b981" : (mode === 'draw_hole' ? "#6b7280" : "#ef4444")}
-                radius={i === 0 && tempPoints.length >= 3 ? 6 / displayScale : 4 / displayScale}
+              {/* Hole edges: click to insert a vertex */}
+              {mode === 'edit_polygon' && holes.map((hole, h) => hole.map((p1, i) => {
+                const p2 = hole[(i + 1) % hole.length];
+                return (
+                  <Line
+                    key={`hole-edge-${h}-${i}`}
+                    points={[p1.x, p1.y, p2.x, p2.y]}
+                    stroke="transparent"
+                    strokeWidth={12 / displayScale}
+                    onClick={(e) => handleHoleEdgeClick(h, i, e)}
+                    onTap={(e) => handleHoleEdgeClick(h, i, e)}
+                  />
+                );
+              }))}
+
+              {/* Classroom Front Wall */}
+              {frontEdgeIndex !== null && frontEdgeIndex < polygon.length && (() => {
+                const p1 = polygon[frontEdgeIndex];
+                const p2 = polygon[(frontEdgeIndex + 1) % polygon.length];
+                return (
+                  <Group listening={false}>
+                    <Line
+                      points={[p1.x, p1.y, p2.x, p2.y]}
+                      stroke="#2563eb"
+                      strokeWidth={6 / displayScale}
+                      lineCap="round"
+                    />
+                    <Text
+                      x={(p1.x + p2.x) / 2}
+                      y={(p1.y + p2.y) / 2}
+                      text="前方"
+                      fontSize={14 / displayScale}
+                      fontStyle="bold"
+                      fill="#2563eb"
+                      offsetX={14 / displayScale}
+                      offsetY={20 / displayScale}
+                    />
+                  </Group>
+                );
+              })()}
+
+              {/* Zones */}
+              {zones.map(zone => {
+                const zx = zone.polygon.reduce((sum, p) => sum + p.x, 0) / Math.max(1, zone.polygon.length);
+                const zy = zone.polygon.reduce((sum, p) => sum + p.y, 0) / Math.max(1, zone.polygon.length);
+                return (
+                  <Group key={`zone-${zone.id}`} listening={false}>
+                    <Line
+                      points={zone.polygon.flatMap(p => [p.x, p.y])}
+                      closed
+                      stroke={zone.color}
+                      strokeWidth={2 / displayScale}
+                      fill={zone.color}
+                      opacity={0.6}
+                      dash={[10 / displayScale, 5 / displayScale]}
+                      fillEnabled={false}
+                    />
+                    <Text
+                      x={zx}
+                      y={zy}
+                      text={zone.name}
+                      fontSize={14 / displayScale}
+                      fontStyle="bold"
+                      fill={zone.color}
+                      offsetX={(zone.name.length * 14) / displayScale / 2}
+                    />
+                  </Group>
+                );
+              })}
+
+              {/* Polygon Handles (only in edit mode) */}
+              {mode === 'edit_polygon' && polygon.map((p, i) => (
+                <Circle
+                  key={`poly-${i}`}
+                  x={p.x}
+                  y={p.y}
+                  radius={6 / displayScale}
+                  fill="#ef4444"
+                  draggable
+                  onDragMove={(e) => handlePointDragMove(i, e)}
+                  onDblClick={() => handlePointDblClick(i)}
+                  onDblTap={() => handlePointDblClick(i)}
+                  stroke="white"
+                  strokeWidth={1 / displayScale}
+                />
+              ))}
+
+              {/* Hole Handles (only in edit mode) */}
+              {mode === 'edit_polygon' && holes.map((hole, h) => hole.map((p, i) => (
+                <Circle
+                  key={`hole-point-${h}-${i}`}
+                  x={p.x}
+                  y={p.y}
+                  radius={5 / displayScale}
+                  fill={h === selectedHoleIndex ? "#4f46e5" : "#6b7280"}
+                  draggable
+                  onDragStart={() => onHoleSelect?.(h)}
+                  onDragMove={(e) => handleHolePointDragMove(h, i, e)}
+                  onDblClick={() => handleHolePointDblClick(h, i)}
+                  onDblTap={() => handleHolePointDblClick(h, i)}
+                  stroke="white"
+                  strokeWidth={1 / displayScale}
+                />
+              )))}
+            </Group>
+          )}
+
+          {/* Exits / Doors (also shown on the result screen) */}
+          {mode !== 'draw_polygon' && exits.filter(exit => exit.edgeIndex < polygon.length).map(exit => {
+            const { start, end } = getExitSegment(exit, polygon, scale);
+            const swingZone = getDoorSwingZone(exit, polygon, scale);
+            const remove = (e: any) => {
+              if (!isExitMode(mode)) return;
+              e.cancelBubble = true; // Don't add another exit on the edge below
+              onExitRemove?.(exit.id);
+            };
+            return (
+              <Group key={`exit-${exit.id}`} listening={isExitMode(mode)} onClick={remove} onTap={remove}>
+                {swingZone && (
+                  <>
+                    {/* Swing arc (kept free of furniture) and the open door leaf */}
+                    <Line
+                      points={swingZone.flatMap(p => [p.x, p.y])}
+                      closed
+                      fill="rgba(22, 163, 74, 0.08)"
+                      stroke="#16a34a"
+                      strokeWidth={1 / displayScale}
+                      dash={[4 / displayScale, 3 / displayScale]}
+                    />
+                    <Line
+                      points={[swingZone[0].x, swingZone[0].y, swingZone[swingZone.length - 1].x, swingZone[swingZone.length - 1].y]}
+                      stroke="#16a34a"
+                      strokeWidth={2 / displayScale}
+                    />
+                  </>
+                )}
+                <Line
+                  points={[start.x, start.y, end.x, end.y]}
+                  stroke="#16a34a"
+                  strokeWidth={8 / displayScale}
+                  lineCap="round"
+                />
+                <Text
+                  x={(start.x + end.x) / 2}
+                  y={(start.y + end.y) / 2}
+                  text={swingZone ? "扉" : "出口"}
+                  fontSize={12 / displayScale}
+                  fontStyle="bold"
+                  fill="#16a34a"
+                  offsetX={12 / displayScale}
+                  offsetY={20 / displayScale}
+                />
+              </Group>
+            );
+          })}
+
+          {/* Hover Tooltip for Edge Length */}
+          {hoveredEdge && !hideGuides && (
+            <Group x={hoveredEdge.x} y={hoveredEdge.y - (20 / displayScale)}>
+              <Rect
+                x={-40 / displayScale}
+                y={-15 / displayScale}
+                width={80 / displayScale}
+                height={30 / displayScale}
+                fill="rgba(0, 0, 0, 0.8)"
+                cornerRadius={4 / displayScale}
               />
-            ))}
-            
-            {/* Mouse Cursor Indicator */}
-            {mousePos && (
-              <Circle
-                x={mousePos.x}
-                y={mousePos.y}
-                radius={3 / displayScale}
-                fill={mode === 'draw_hole' ? "#6b7280" : "#ef4444"}
-                opacity={0.5}
+              <Text
+                text={`${Math.round(hoveredEdge.length)}mm`}
+                fontSize={14 / displayScale}
+                fill="white"
+                align="center"
+                verticalAlign="middle"
+                width={80 / displayScale}
+                height={30 / displayScale}
+                x={-40 / displayScale}
+                y={-15 / displayScale}
               />
-            )}
-          </>
-        )}
+            </Group>
+          )}
 
-        {/* Edge Lengths (Show when showDimensions is true) - REMOVED per request */}
-        
-        {/* Scale Line (only in set_scale mode) */}
-        {mode === 'set_scale' && !hideGuides && (
-          <>
-            {/* Scale Line Drawing Preview */}
-            {!scaleLine && tempPoints.length > 0 && mousePos && (
+          {/* --- Drawing Mode --- */}
+          {isDrawing && (
+            <>
+              {/* Freehand Stroke being traced */}
+              {stroke && (
+                <Line
+                  points={stroke.flatMap(p => [p.x, p.y])}
+                  stroke={drawColor}
+                  strokeWidth={2 / displayScale}
+                  lineCap="round"
+                  lineJoin="round"
+                  listening={false}
+                />
+              )}
+
+              {/* Rectangle / Circle Preview, with its size once the scale is known */}
+              {quickShape && tempPoints.length > 0 && mousePos && (() => {
+                const start = tempPoints[0];
+                const size = quickShape === 'circle'
+                  ? `φ${Math.round((Math.hypot(mousePos.x - start.x, mousePos.y - start.y) * 2) / scale)}mm`
+                  : `${Math.round(Math.abs(mousePos.x - start.x) / scale)} x ${Math.round(Math.abs(mousePos.y - start.y) / scale)}mm`;
+                return (
+                  <Group listening={false}>
+                    <Line
+                      points={getQuickShape(quickShape, start, mousePos).flatMap(p => [p.x, p.y])}
+                      closed
+                      stroke={drawColor}
+                      strokeWidth={2 / displayScale}
+                      fill="rgba(107, 114, 128, 0.15)"
+                      dash={[10 / displayScale, 5 / displayScale]}
+                    />
+                    {showDimensions && (
+                      <Text
+                        x={mousePos.x + 10 / displayScale}
+                        y={mousePos.y - 20 / displayScale}
+                        text={size}
+                        fontSize={12 / displayScale}
+                        fill={drawColor}
+                        fontStyle="bold"
+                      />
+                    )}
+                  </Group>
+                );
+              })()}
+
+              {/* Confirmed Lines */}
               <Line
-                points={[
-                  tempPoints[0].x,
-                  tempPoints[0].y,
-                  mousePos.x,
-                  mousePos.y
-                ]}
-                stroke="#3b82f6"
+                points={tempPoints.flatMap(p => [p.x, p.y])}
+                stroke={drawColor}
                 strokeWidth={2 / displayScale}
-                dash={[5 / displayScale, 5 / displayScale]}
+                dash={mode !== 'draw_polygon' ? [10 / displayScale, 5 / displayScale] : undefined}
               />
-            )}
             
-            {/* Scale Line Start Point Preview */}
-            {!scaleLine && tempPoints.length > 0 && (
-              <Circle
-                x={tempPoints[0].x}
-                y={tempPoints[0].y}
-                radius={4 / displayScale}
-                fill="#3b82f6"
+              {/* Rubber Band (Preview Line) */}
+              {tempPoints.length > 0 && mousePos && (
+                <Line
+                  points={[
+                    tempPoints[tempPoints.length - 1].x,
+                    tempPoints[tempPoints.length - 1].y,
+                    mousePos.x,
+                    mousePos.y
+                  ]}
+                  stroke={drawColor}
+                  strokeWidth={1 / displayScale}
+                  dash={[5 / displayScale, 5 / displayScale]}
+                />
+              )}
+
+              {/* Vertices */}
+              {tempPoints.map((p, i) => (
+                <Circle
+                  key={`temp-${i}`}
+                  x={p.x}
+                  y={p.y}
+                  stroke="white"
+                  strokeWidth={1 / displayScale}
+                  // Allow clicking first point to close
+                  onClick={(e) => {
+                    if (i === 0 && tempPoints.length >= 3) {
+                      e.cancelBubble = true; // Prevent stage click
+                      handleFinishDrawing();
+                    }
+                  }}
+                  onTap={(e) => {
+                    if (i === 0 && tempPoints.length >= 3) {
+                      e.cancelBubble = true;
+                      handleFinishDrawing();
+                    }
+                  }}
+                  // Highlight start point when ready to close
+                  fill={i === 0 && tempPoints.length >= 3 ? "#10b981" : drawColor}
+                  radius={i === 0 && tempPoints.length >= 3 ? 6 / displayScale : 4 / displayScale}
+                />
+              ))}
+            
+              {/* Mouse Cursor Indicator */}
+              {mousePos && (
+                <Circle
+                  x={mousePos.x}
+                  y={mousePos.y}
+                  radius={3 / displayScale}
+                  fill={drawColor}
+                  opacity={0.5}
+                />
+              )}
+            </>
+          )}
+
+          {/* Snap Indicator: the edge or angle ray used, a marker and what was snapped to */}
+          {snapHint && mousePos && (isDrawing || (mode === 'set_scale' && !scaleLine)) && (
+            <Group listening={false}>
+              {snapHint.guide && (
+                <Line
+                  points={snapHint.guide.flatMap(p => [p.x, p.y])}
+                  stroke={SNAP_COLOR}
+                  strokeWidth={1 / displayScale}
+                  dash={[6 / displayScale, 4 / displayScale]}
+                />
+              )}
+              {snapHint.kind === 'vertex' && (
+                <Rect
+                  x={mousePos.x - 6 / displayScale}
+                  y={mousePos.y - 6 / displayScale}
+                  width={12 / displayScale}
+                  height={12 / displayScale}
+                  stroke={SNAP_COLOR}
+                  strokeWidth={2 / displayScale}
+                />
+              )}
+              {snapHint.kind === 'edge' && (
+                <Rect
+                  x={mousePos.x}
+                  y={mousePos.y}
+                  offsetX={5 / displayScale}
+                  offsetY={5 / displayScale}
+                  width={10 / displayScale}
+                  height={10 / displayScale}
+                  rotation={45}
+                  stroke={SNAP_COLOR}
+                  strokeWidth={2 / displayScale}
+                />
+              )}
+              {(snapHint.kind === 'grid' || snapHint.kind === 'angle') && (
+                <Line
+                  points={[
+                    mousePos.x - 6 / displayScale, mousePos.y, mousePos.x + 6 / displayScale, mousePos.y,
+                    mousePos.x, mousePos.y, mousePos.x, mousePos.y - 6 / displayScale, mousePos.x, mousePos.y + 6 / displayScale
+                  ]}
+                  stroke={SNAP_COLOR}
+                  strokeWidth={2 / displayScale}
+                />
+              )}
+              <Text
+                x={mousePos.x + 10 / displayScale}
+                y={mousePos.y + 8 / displayScale}
+                text={snapHint.kind === 'angle' ? `${Math.abs(snapHint.angle ?? 0)}°` : SNAP_LABELS[snapHint.kind!]}
+                fontSize={11 / displayScale}
+                fill={SNAP_COLOR}
+                fontStyle="bold"
               />
-            )}
+            </Group>
+          )}
 
-            {scaleLine && (
-              <>
+          {/* Edge Lengths (Show when showDimensions is true) - REMOVED per request */}
+        
+          {/* Scale Line (only in set_scale mode) */}
+          {mode === 'set_scale' && !hideGuides && (
+            <>
+              {/* Scale Line Drawing Preview */}
+              {!scaleLine && tempPoints.length > 0 && mousePos && (
                 <Line
-                  points={[scaleLine.start.x, scaleLine.start.y, scaleLine.end.x, scaleLine.end.y]}
+                  points={[
+                    tempPoints[0].x,
+                    tempPoints[0].y,
+                    mousePos.x,
+                    mousePos.y
+                  ]}
                   stroke="#3b82f6"
                   strokeWidth={2 / displayScale}
-                  dash={[10, 5]}
+                  dash={[5 / displayScale, 5 / displayScale]}
                 />
+              )}
+            
+              {/* Scale Line Start Point Preview */}
+              {!scaleLine && tempPoints.length > 0 && (
                 <Circle
-                  x={scaleLine.start.x}
-                  y={scaleLine.start.y}
-                  radius={6 / displayScale}
+                  x={tempPoints[0].x}
+                  y={tempPoints[0].y}
+                  radius={4 / displayScale}
                   fill="#3b82f6"
-                  draggable
-                  onDragMove={(e) => handleScalePointDrag('start', e)}
                 />
-                <Circle
-                  x={scaleLine.end.x}
-                  y={scaleLine.end.y}
-                  radius={6 / displayScale}
-                  fill="#3b82f6"
-                  draggable
-                  onDragMove={(e) => handleScalePointDrag('end', e)}
-                />
-              </>
-            )}
-          </>
-        )}
-
-        {/* Furniture Items (Only show if NOT drawing, to avoid clutter, or show dim?) */}
-        {mode !== 'draw_polygon' && items.map(item => (
-          <Group key={item.id} x={item.x} y={item.y} rotation={item.rotation}>
-            {/* Table */}
-            <Rect
-              width={item.type.tableWidth * scale}
-              height={item.type.tableDepth * scale}
-              fill={item.type.color}
-              stroke="black"
-              strokeWidth={1 / displayScale}
+              )}
+
+              {scaleLine && (
+                <>
+                  <Line
+                    points={[scaleLine.start.x, scaleLine.start.y, scaleLine.end.x, scaleLine.end.y]}
+                    stroke="#3b82f6"
+                    strokeWidth={2 / displayScale}
+                    dash={[10 / displayScale, 5 / displayScale]}
+                  />
+                  <Circle
+                    x={scaleLine.start.x}
+                    y={scaleLine.start.y}
+                    radius={6 / displayScale}
+                    fill="#3b82f6"
+                    draggable
+                    onDragMove={(e) => handleScalePointDrag('start', e)}
+                  />
+                  <Circle
+                    x={scaleLine.end.x}
+                    y={scaleLine.end.y}
+                    radius={6 / displayScale}
+                    fill="#3b82f6"
+                    draggable
+                    onDragMove={(e) => handleScalePointDrag('end', e)}
+                  />
+                </>
+              )}
+            </>
+          )}
+
+          {/* Furniture Items (Only show if NOT drawing, to avoid clutter, or show dim?) */}
+          {mode !== 'draw_polygon' && items.map(item => {
+            const tableD = item.type.tableDepth * scale;
+            const isFlagged = flaggedItemIds.includes(item.id);
+            const isSelected = mode === 'edit_items' && item.id === selectedItemId;
+            // Outline: red for problems (also while dragging), indigo for the selection
+            const stroke = isFlagged ? "#dc2626" : isSelected ? "#4f46e5" : "black";
+            const strokeWidth = (isFlagged || isSelected ? 3 : 1) / displayScale;
+            const select = (e: any) => {
+              if (mode !== 'edit_items') return;
+              e.cancelBubble = true; // Don't deselect via the stage click
+              onItemSelect?.(item.id);
+            };
+            const editProps = {
+              draggable: mode === 'edit_items',
+              onClick: select,
+              onTap: select,
+              onDragStart: () => onItemSelect?.(item.id),
+              onDragMove: (e: any) => onItemDrag?.(item.id, { x: e.target.x(), y: e.target.y() }),
+              onDragEnd: (e: any) => onItemDragEnd?.(item.id, { x: e.target.x(), y: e.target.y() })
+            };
+
+            if (item.accessible) {
+              // Wheelchair workstation: table, turning circle and a marker instead of chairs
+              const turning = ACCESSIBLE_SEAT.turningDiameter * scale;
+              const tableW = item.type.tableWidth * scale;
+              const w = Math.max(tableW, turning);
+              const marker = 14 / displayScale;
+              return (
+                <Group key={item.id} x={item.x} y={item.y} rotation={item.rotation} {...editProps}>
+                  <Rect
+                    x={(w - tableW) / 2}
+                    width={tableW}
+                    height={tableD}
+                    fill={item.type.color}
+                    stroke={stroke}
+                    strokeWidth={strokeWidth}
+                  />
+                  <Circle
+                    x={w / 2}
+                    y={tableD + turning / 2}
+                    radius={turning / 2}
+                    fill="rgba(37, 99, 235, 0.08)"
+                    stroke="#2563eb"
+                    strokeWidth={1.5 / displayScale}
+                    dash={[6 / displayScale, 4 / displayScale]}
+                  />
+                  <Circle x={w / 2} y={tableD + turning / 2} radius={marker} fill="#2563eb" />
+                  <Text
+                    x={w / 2}
+                    y={tableD + turning / 2}
+                    text="♿"
+                    fontSize={marker * 1.4}
+                    fill="white"
+                    width={marker * 2}
+                    height={marker * 2}
+                    offsetX={marker}
+                    offsetY={marker}
+                    rotation={-item.rotation} // Keep the symbol upright
+                    align="center"
+                    verticalAlign="middle"
+                  />
+                </Group>
+              );
+            }
+
+            const geometry = getFurnitureGeometry(item.type, item.arrangement);
+            return (
+              <Group key={item.id} x={item.x} y={item.y} rotation={item.rotation} {...editProps}>
+                {/* Table tops and booth benches */}
+                {geometry.pieces.map((piece, i) => {
+                  const props = {
+                    fill: piece.kind === 'bench' ? '#e5e7eb' : item.type.color,
+                    stroke,
+                    strokeWidth
+                  };
+                  return piece.outline === 'circle' ? (
+                    <Circle
+                      key={`piece-${i}`}
+                      x={(piece.x + piece.w / 2) * scale}
+                      y={(piece.y + piece.h / 2) * scale}
+                      radius={(piece.w / 2) * scale}
+                      {...props}
+                    />
+                  ) : (
+                    <Rect
+                      key={`piece-${i}`}
+                      x={piece.x * scale}
+                      y={piece.y * scale}
+                      width={piece.w * scale}
+                      height={piece.h * scale}
+                      cornerRadius={piece.kind === 'bench' ? 4 / displayScale : 0}
+                      {...props}
+                    />
+                  );
+                })}
+                {/* Chairs */}
+                {geometry.chairs && geometry.seats.map((seat, i) => renderChair(item, seat, i))}
+              </Group>
+            );
+          })}
+
+          {/* Egress Routes */}
+          {egressPaths.map((path, i) => (
+            <Line
+              key={`egress-${i}`}
+              points={path.points.flatMap(p => [p.x, p.y])}
+              stroke={path.flagged ? "#dc2626" : "#16a34a"}
+              strokeWidth={2 / displayScale}
+              dash={[8 / displayScale, 4 / displayScale]}
+              lineJoin="round"
+              listening={false}
             />
-            {/* Chairs */}
-            {Array.from({ length: item.type.chairCount }).map((_, i) => {
-               // Distribute chairs along the width
-               const chairW = CHAIR_DIMENSIONS.width * scale;
-               const chairD = CHAIR_DIMENSIONS.depth * scale;
-               const tableW = item.type.tableWidth * scale;
-               const spacing = (tableW - (item.type.chairCount * chairW)) / (item.type.chairCount + 1);
-               const xPos = spacing + i * (chairW + spacing);
-               
-               return (
-                 <Group key={i} x={xPos} y={item.type.tableDepth * scale}>
-                   {/* Chair Body */}
-                   <Rect
-                      width={chairW}
-                      height={chairD * 0.7} // Visual depth slightly less than full footprint
-                      fill="white"
-                      stroke="black"
-                      strokeWidth={1 / displayScale}
-                      cornerRadius={4}
-                   />
-                   {/* Chair Back */}
-                   <Rect
-                      y={chairD * 0.5}
-                      width={chairW}
-                      height={chairD * 0.2}
-                      fill="white"
-                      stroke="black"
-                      strokeWidth={1 / displayScale}
-                      cornerRadius={2}
-                   />
-                 </Group>
-               );
-            })}
-          </Group>
-        ))}
-      </Layer>
-    </Stage>
+          ))}
+        </Layer>
+      </Stage>
+
+      {/* Zoom controls */}
+      <div className="absolute top-2 right-2 flex items-center gap-1 bg-white/90 border border-gray-200 rounded-lg shadow-sm p-1 text-gray-600">
+        <button
+          onClick={() => zoomAt(view.zoom / WHEEL_ZOOM_STEP ** 3, { x: width / 2, y: height / 2 })}
+          className="p-1 hover:bg-gray-100 rounded"
+          title="縮小"
+        >
+          <Minus className="w-4 h-4" />
+        </button>
+        <span className="w-12 text-center text-xs font-mono">{Math.round(view.zoom * 100)}%</span>
+        <button
+          onClick={() => zoomAt(view.zoom * WHEEL_ZOOM_STEP ** 3, { x: width / 2, y: height / 2 })}
+          className="p-1 hover:bg-gray-100 rounded"
+          title="拡大"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        <button
+          onClick={fitToRoom}
+          disabled={polygon.length < 3}
+          className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+          title="部屋に合わせる"
+        >
+          <Scan className="w-4 h-4" />
+        </button>
+        <button onClick={() => setView(PAGE_VIEW)} className="p-1 hover:bg-gray-100 rounded" title="ページ全体を表示">
+          <Maximize className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Minimap: the whole page with the visible area; click to move there */}
+      {view.zoom > 1 && (
+        <svg
+          width={MINIMAP_WIDTH}
+          height={MINIMAP_WIDTH / aspectRatio}
+          viewBox={`0 0 ${image.width} ${image.height}`}
+          className="absolute bottom-2 right-2 bg-white border border-gray-300 rounded shadow-md cursor-pointer"
+          onClick={(e) => {
+            const box = e.currentTarget.getBoundingClientRect();
+            centerOn({
+              x: ((e.clientX - box.left) / box.width) * image.width,
+              y: ((e.clientY - box.top) / box.height) * image.height
+            });
+          }}
+        >
+          <image href={imageUrl} width={image.width} height={image.height} opacity={0.6} />
+          {polygon.length >= 3 && (
+            <polygon
+              points={polygon.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(239, 68, 68, 0.15)"
+              stroke="#ef4444"
+              strokeWidth={image.width / MINIMAP_WIDTH}
+            />
+          )}
+          <rect
+            x={-view.x / displayScale}
+            y={-view.y / displayScale}
+            width={width / displayScale}
+            height={height / displayScale}
+            fill="rgba(79, 70, 229, 0.1)"
+            stroke="#4f46e5"
+            strokeWidth={(2 * image.width) / MINIMAP_WIDTH}
+          />
+        </svg>
+      )}
+    </div>
   );
 });
 
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { LayoutPreset } from '../constants';
+
+interface PresetEditorProps {
+  presets: LayoutPreset[];
+  onChange: (presets: LayoutPreset[]) => void;
+}
+
+// Numeric mm field used for the preset spacings
+const MmInput: React.FC<{
+  label: string;
+  value: number | undefined;
+  placeholder?: string;
+  onChange: (value: number | undefined) => void;
+}> = ({ label, value, placeholder, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[10px] text-gray-500">{label}</span>
+    <div className="relative">
+      <input
+        type="number"
+        min={0}
+        step={50}
+        value={value ?? ''}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+        className="w-full pl-2 pr-7 py-1 text-xs bg-white border border-gray-200 rounded"
+      />
+      <span className="absolute right-2 top-1 text-[10px] text-gray-400">mm</span>
+    </div>
+  </label>
+);
+
+/**
+ * Editable list of layout presets (aisle gap, side gap, wall clearance).
+ * Every enabled preset becomes one tab on the result screen.
+ */
+const PresetEditor: React.FC<PresetEditorProps> = ({ presets, onChange }) => {
+  const update = (id: string, patch: Partial<LayoutPreset>) => {
+    onChange(presets.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...presets,
+      {
+        id: `preset-${crypto.randomUUID()}`,
+        label: `カスタム${presets.filter(p => !p.builtIn).length + 1}`,
+        aisleGap: 1200,
+        sideGap: 50,
+        enabled: true
+      }
+    ]);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(presets.filter(p => p.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      {presets.map((preset) => (
+        <div key={preset.id} className="p-3 bg-gray-50 rounded-lg border border-gray-100 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={preset.enabled}
+              onChange={() => update(preset.id, { enabled: !preset.enabled })}
+              className="w-4 h-4 text-indigo-600 rounded border-gray-300 focus:ring-indigo-500"
+            />
+            <input
+              type="text"
+              value={preset.label}
+              onChange={(e) => update(preset.id, { label: e.target.value })}
+              className="flex-1 min-w-0 text-sm font-medium bg-white border border-gray-200 rounded px-2 py-1"
+            />
+            {!preset.builtIn && (
+              <button
+                onClick={() => handleDelete(preset.id)}
+                className="p-1 text-gray-400 hover:text-red-600 rounded"
+                title="パターンを削除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <MmInput
+              label="通路幅"
+              value={preset.aisleGap}
+              onChange={(v) => update(preset.id, { aisleGap: v ?? 0 })}
+            />
+            <MmInput
+              label="机の間隔"
+              value={preset.sideGap}
+              onChange={(v) => update(preset.id, { sideGap: v ?? 0 })}
+            />
+            <MmInput
+              label="壁との距離"
+              value={preset.wallClearance}
+              placeholder={String(preset.aisleGap)}
+              onChange={(v) => update(preset.id, { wallClearance: v })}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={handleAdd}
+        className="w-full py-2 px-3 bg-white border border-dashed border-gray-300 hover:border-indigo-300 hover:text-indigo-700 text-gray-600 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        パターンを追加
+      </button>
+    </div>
+  );
+};
+
+export default PresetEditor;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Magnet } from 'lucide-react';
+import { SnapSettings, SNAP_ANGLE_STEPS } from '../constants';
+
+interface SnapToolbarProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+  gridAvailable: boolean; // The grid is in mm, so it needs the scale
+}
+
+/**
+ * What points snap to while the room, areas and zones are drawn.
+ */
+const SnapToolbar: React.FC<SnapToolbarProps> = ({ settings, onChange, gridAvailable }) => {
+  const update = (patch: Partial<SnapSettings>) => onChange({ ...settings, ...patch });
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-1 rounded border transition-colors ${
+      active ? 'bg-fuchsia-50 border-fuchsia-300 text-fuchsia-700' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+      <span className="flex items-center gap-1 font-medium text-gray-700">
+        <Magnet className="w-4 h-4 text-fuchsia-600" />
+        スナップ
+      </span>
+      <button onClick={() => update({ vertices: !settings.vertices })} className={toggleClass(settings.vertices)}>
+        頂点
+      </button>
+      <button onClick={() => update({ edges: !settings.edges })} className={toggleClass(settings.edges)}>
+        辺
+      </button>
+      <label className="flex items-center gap-1">
+        角度
+        <select
+          value={settings.angleStep}
+          onChange={(e) => update({ angleStep: Number(e.target.value) })}
+          className="bg-white border border-gray-200 rounded px-1 py-1"
+        >
+          <option value={0}>なし</option>
+          {SNAP_ANGLE_STEPS.map(step => (
+            <option key={step} value={step}>{step}°</option>
+          ))}
+        </select>
+      </label>
+      <label className={`flex items-center gap-1 ${gridAvailable ? '' : 'opacity-50'}`} title={gridAvailable ? undefined : '縮尺を設定すると使えます'}>
+        グリッド
+        <input
+          type="number"
+          min={0}
+          step={50}
+          value={settings.gridMm}
+          disabled={!gridAvailable}
+          onChange={(e) => update({ gridMm: Math.max(0, Number(e.target.value)) })}
+          className="w-20 bg-white border border-gray-200 rounded px-2 py-1"
+        />
+        mm
+      </label>
+      <span className="text-gray-400">Altキーを押している間はスナップしません</span>
+    </div>
+  );
+};
+
+export default SnapToolbar;
@@ -0,0 +1,151 @@
+import React from 'react';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { WallFurniture, WallFurnitureQuantity } from '../constants';
+import { NEW_TYPE_COLOR, validateWallFurniture } from '../utils/furnitureCatalog';
+
+interface WallFurnitureEditorProps {
+  items: WallFurniture[];
+  onChange: (items: WallFurniture[]) => void;
+}
+
+/**
+ * Storage, lockers, printers and other furniture without seats that is placed along the walls.
+ * Each type needs either a fixed number of units or one unit per so many seats.
+ */
+const WallFurnitureEditor: React.FC<WallFurnitureEditorProps> = ({ items, onChange }) => {
+  const update = (id: string, patch: Partial<WallFurniture>) => {
+    onChange(items.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const handleModeChange = (item: WallFurniture, mode: WallFurnitureQuantity['mode']) => {
+    update(item.id, { quantity: mode === 'fixed' ? { mode, count: 1 } : { mode, seats: 20 } });
+  };
+
+  const handleAdd = () => {
+    onChange([...items, {
+      id: `wall-${crypto.randomUUID()}`,
+      category: 'wall',
+      name: `新しい壁際家具${items.length + 1}`,
+      tableWidth: 900,
+      tableDepth: 450,
+      chairCount: 0,
+      unitPrice: 30000,
+      color: NEW_TYPE_COLOR,
+      enabled: true,
+      quantity: { mode: 'fixed', count: 1 }
+    }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map(item => {
+        const errors = validateWallFurniture(item);
+        const { quantity } = item;
+        return (
+          <div
+            key={item.id}
+            className={`p-3 bg-gray-50 rounded-lg border space-y-2 ${errors.length > 0 ? 'border-red-200' : 'border-gray-100'}`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={item.enabled !== false}
+                onChange={() => update(item.id, { enabled: item.enabled === false })}
+                className="w-4 h-4 text-indigo-600 rounded border-gray-300 focus:ring-indigo-500"
+              />
+              <input
+                type="text"
+                value={item.name}
+                onChange={(e) => update(item.id, { name: e.target.value })}
+                className="flex-1 min-w-0 text-sm font-medium bg-white border border-gray-200 rounded px-2 py-1"
+              />
+              <input
+                type="color"
+                value={item.color}
+                onChange={(e) => update(item.id, { color: e.target.value })}
+                className="w-8 h-7 p-0 bg-white border border-gray-200 rounded cursor-pointer"
+                title="表示色"
+              />
+              <button
+                onClick={() => onChange(items.filter(i => i.id !== item.id))}
+                className="p-1 text-gray-400 hover:text-red-600 rounded"
+                title="壁際家具を削除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                { key: 'tableWidth', label: '幅（壁沿い）', unit: 'mm' },
+                { key: 'tableDepth', label: '奥行', unit: 'mm' },
+                { key: 'unitPrice', label: '単価', unit: '¥' }
+              ] as const).map(({ key, label, unit }) => (
+                <label key={key} className="flex flex-col gap-1">
+                  <span className="text-[10px] text-gray-500">{label}</span>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min={0}
+                      value={item[key]}
+                      onChange={(e) => update(item.id, { [key]: Number(e.target.value) })}
+                      className="w-full pl-2 pr-7 py-1 text-xs bg-white border border-gray-200 rounded"
+                    />
+                    <span className="absolute right-2 top-1 text-[10px] text-gray-400">{unit}</span>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-gray-600">
+              <select
+                value={quantity.mode}
+                onChange={(e) => handleModeChange(item, e.target.value as WallFurnitureQuantity['mode'])}
+                className="text-xs bg-white border border-gray-200 rounded px-2 py-1"
+              >
+                <option value="fixed">固定数</option>
+                <option value="perSeats">席数あたり</option>
+              </select>
+              {quantity.mode === 'fixed' ? (
+                <>
+                  <input
+                    type="number"
+                    min={0}
+                    value={quantity.count}
+                    onChange={(e) => update(item.id, { quantity: { mode: 'fixed', count: Number(e.target.value) } })}
+                    className="w-16 px-2 py-1 text-xs bg-white border border-gray-200 rounded"
+                  />
+                  <span>台</span>
+                </>
+              ) : (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    value={quantity.seats}
+                    onChange={(e) => update(item.id, { quantity: { mode: 'perSeats', seats: Number(e.target.value) } })}
+                    className="w-16 px-2 py-1 text-xs bg-white border border-gray-200 rounded"
+                  />
+                  <span>席ごとに1台</span>
+                </>
+              )}
+            </div>
+            {errors.length > 0 && (
+              <div className="flex items-start gap-1 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                <span>{errors.join(' / ')}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={handleAdd}
+        className="w-full py-2 px-3 bg-white border border-dashed border-gray-300 hover:border-indigo-300 hover:text-indigo-700 text-gray-600 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        壁際家具を追加
+      </button>
+    </div>
+  );
+};
+
+export default WallFurnitureEditor;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { FurnitureSet, LayoutPreset } from '../constants';
+import { LayoutOrientation, LayoutZone } from '../utils/layoutEngine';
+
+interface ZoneEditorProps {
+  zones: LayoutZone[];
+  presets: LayoutPreset[];
+  furnitureTypes: FurnitureSet[];
+  onChange: (zones: LayoutZone[]) => void;
+}
+
+const ORIENTATION_LABELS: Record<LayoutOrientation, string> = {
+  auto: '自動',
+  horizontal: '横並び',
+  vertical: '縦並び'
+};
+
+/**
+ * Settings for each zone drawn inside the room: name, preset, furniture and row direction.
+ */
+const ZoneEditor: React.FC<ZoneEditorProps> = ({ zones, presets, furnitureTypes, onChange }) => {
+  const update = (id: string, patch: Partial<LayoutZone>) => {
+    onChange(zones.map(z => z.id === id ? { ...z, ...patch } : z));
+  };
+
+  const toggleType = (zone: LayoutZone, typeId: string) => {
+    const ids = zone.furnitureTypeIds.includes(typeId)
+      ? zone.furnitureTypeIds.filter(id => id !== typeId)
+      : [...zone.furnitureTypeIds, typeId];
+    update(zone.id, { furnitureTypeIds: ids });
+  };
+
+  return (
+    <div className="space-y-2">
+      {zones.map((zone) => (
+        <div key={zone.id} className="p-3 bg-gray-50 rounded-lg border border-gray-100 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: zone.color }} />
+            <input
+              type="text"
+              value={zone.name}
+              onChange={(e) => update(zone.id, { name: e.target.value })}
+              className="flex-1 min-w-0 text-sm font-medium bg-white border border-gray-200 rounded px-2 py-1"
+            />
+            <button
+              onClick={() => onChange(zones.filter(z => z.id !== zone.id))}
+              className="p-1 text-gray-400 hover:text-red-600 rounded"
+              title="ゾーンを削除"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={zone.pattern}
+              onChange={(e) => update(zone.id, { pattern: e.target.value })}
+              className="text-xs bg-white border border-gray-200 rounded px-2 py-1"
+            >
+              {presets.map(p => (
+                <option key={p.id} value={p.id}>{p.label} ({p.aisleGap}mm)</option>
+              ))}
+            </select>
+            <select
+              value={zone.orientation}
+              onChange={(e) => update(zone.id, { orientation: e.target.value as LayoutOrientation })}
+              className="text-xs bg-white border border-gray-200 rounded px-2 py-1"
+            >
+              {(Object.keys(ORIENTATION_LABELS) as LayoutOrientation[]).map(o => (
+                <option key={o} value={o}>{ORIENTATION_LABELS[o]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {furnitureTypes.map(type => (
+              <label key={type.id} className="flex items-center gap-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={zone.furnitureTypeIds.includes(type.id)}
+                  onChange={() => toggleType(zone, type.id)}
+                  className="w-3 h-3 text-indigo-600 rounded border-gray-300"
+                />
+                {type.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ZoneEditor;
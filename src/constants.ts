@@ -1,14 +1,75 @@
+// A chair sold separately from the tables; each furniture type seats one model
+export interface ChairModel {
+  id: string;
+  name: string;
+  width: number; // mm
+  depth: number; // mm, including the space to pull the chair out
+  unitPrice: number; // JPY per chair
+  sku?: string;
+  vendor?: string;
+}
+
+// Outline of a furniture type. 'round' tables seat their chairs radially, an 'lDesk' has a
+// return wing on the right, and a 'booth' has fixed benches facing each other.
+export type FurnitureShape = 'rect' | 'round' | 'lDesk' | 'booth';
+
+export const FURNITURE_SHAPE_LABELS: Record<FurnitureShape, string> = {
+  rect: '長方形',
+  round: '丸テーブル',
+  lDesk: 'L字デスク',
+  booth: 'ブース'
+};
+
 export interface FurnitureSet {
   id: string;
   name: string;
-  tableWidth: number; // mm
-  tableDepth: number; // mm
+  shape?: FurnitureShape; // Defaults to 'rect'
+  tableWidth: number; // mm; the diameter of a round table
+  tableDepth: number; // mm; equals tableWidth for a round table
+  returnLength?: number; // mm, L-desk: length of the return wing, measured from the back edge
   chairCount: number;
-  unitPrice: number; // JPY
+  unitPrice: number; // JPY, net price of the table alone; chairs are priced by their model
+  listPrice?: number; // JPY, vendor's list price before discount
+  chairModelId?: string; // Defaults to the first chair model
+  chair?: ChairModel; // Resolved from chairModelId when a layout is generated
+  maxQuantity?: number; // Tables in stock; no limit when unset
   color: string;
   enabled?: boolean;
+  sku?: string; // Vendor's product code
+  vendor?: string;
+  // 'wall' furniture has no seats and is placed against the walls (see WallFurniture)
+  category?: 'seating' | 'wall';
 }
 
+// How many units of a wall furniture type a layout needs
+export type WallFurnitureQuantity =
+  | { mode: 'fixed'; count: number }
+  | { mode: 'perSeats'; seats: number }; // One unit per this many seats, rounded up
+
+// Storage, lockers, printers, ...: tableWidth runs along the wall, tableDepth into the room
+export interface WallFurniture extends FurnitureSet {
+  category: 'wall';
+  quantity: WallFurnitureQuantity;
+}
+
+export const WALL_FURNITURE: WallFurniture[] = [
+  {
+    id: 'cabinet', category: 'wall', name: '収納キャビネット (900x450)',
+    tableWidth: 900, tableDepth: 450, chairCount: 0, unitPrice: 42000, // Placeholder prices
+    color: '#78716c', enabled: false, quantity: { mode: 'fixed', count: 2 }
+  },
+  {
+    id: 'locker', category: 'wall', name: 'パーソナルロッカー (300x515)',
+    tableWidth: 300, tableDepth: 515, chairCount: 0, unitPrice: 18000,
+    color: '#64748b', enabled: false, quantity: { mode: 'perSeats', seats: 1 }
+  },
+  {
+    id: 'printer', category: 'wall', name: 'プリンターステーション (1200x600)',
+    tableWidth: 1200, tableDepth: 600, chairCount: 0, unitPrice: 35000,
+    color: '#a16207', enabled: false, quantity: { mode: 'perSeats', seats: 20 }
+  }
+];
+
 export const FURNITURE_TYPES: FurnitureSet[] = [
   {
     id: 'type1',
@@ -16,7 +77,7 @@ export const FURNITURE_TYPES: FurnitureSet[] = [
     tableWidth: 1800,
     tableDepth: 450,
     chairCount: 3,
-    unitPrice: 50000, // Placeholder
+    unitPrice: 26000, // Placeholder
     color: '#3b82f6' // Blue
   },
   {
@@ -25,7 +86,7 @@ export const FURNITURE_TYPES: FurnitureSet[] = [
     tableWidth: 1500,
     tableDepth: 450,
     chairCount: 2,
-    unitPrice: 45000, // Placeholder
+    unitPrice: 29000, // Placeholder
     color: '#10b981' // Emerald
   },
   {
@@ -34,20 +95,145 @@ export const FURNITURE_TYPES: FurnitureSet[] = [
     tableWidth: 1200,
     tableDepth: 450,
     chairCount: 2,
-    unitPrice: 40000, // Placeholder
+    unitPrice: 24000, // Placeholder
     color: '#f59e0b' // Amber
+  },
+  {
+    id: 'round1200',
+    name: '丸テーブル (φ1200)',
+    shape: 'round',
+    tableWidth: 1200,
+    tableDepth: 1200,
+    chairCount: 4,
+    unitPrice: 38000, // Placeholder
+    color: '#8b5cf6', // Violet
+    enabled: false
+  },
+  {
+    id: 'ldesk1600',
+    name: 'L字デスク (1600x700)',
+    shape: 'lDesk',
+    tableWidth: 1600,
+    tableDepth: 700,
+    returnLength: 1400,
+    chairCount: 1,
+    unitPrice: 72000, // Placeholder
+    color: '#0ea5e9', // Sky
+    enabled: false
+  },
+  {
+    id: 'booth2',
+    name: '2人用ブース (1200x700)',
+    shape: 'booth',
+    tableWidth: 1200,
+    tableDepth: 700,
+    chairCount: 2,
+    unitPrice: 180000, // Placeholder, benches included
+    color: '#ec4899', // Pink
+    enabled: false
   }
 ];
 
-export const CHAIR_DIMENSIONS = {
-  width: 500,
-  depth: 600
+// Consumption tax applied on estimates
+export const TAX_RATE = 0.1;
+
+// Tax-inclusive total, rounded down to the yen as on the estimate
+export const withTax = (cost: number) => Math.floor(cost * (1 + TAX_RATE));
+
+export const CHAIR_MODELS: ChairModel[] = [
+  { id: 'task', name: 'タスクチェア', width: 500, depth: 600, unitPrice: 8000 }, // Placeholder prices
+  { id: 'stool', name: 'スツール', width: 400, depth: 450, unitPrice: 5000 },
+  { id: 'lounge', name: 'ラウンジチェア', width: 700, depth: 800, unitPrice: 30000 }
+];
+
+// Chair assumed for types whose model is unset or no longer in the catalog
+export const DEFAULT_CHAIR_MODEL = CHAIR_MODELS[0];
+
+// Layout presets are identified by id; the built-in ones are 'cramped', 'standard' and 'spacious'
+export type LayoutPattern = string;
+
+export interface LayoutPreset {
+  id: LayoutPattern;
+  label: string;
+  aisleGap: number; // mm between rows
+  sideGap: number; // mm between tables side by side
+  wallClearance?: number; // mm along walls; unset = rows start one aisle gap from the wall
+  enabled: boolean; // Generated and shown on the result screen
+  builtIn?: boolean; // Shipped presets can be edited but not deleted
+}
+
+export const DEFAULT_LAYOUT_PRESETS: LayoutPreset[] = [
+  { id: 'cramped', label: '窮屈', aisleGap: 1000, sideGap: 50, wallClearance: 600, enabled: true, builtIn: true },
+  { id: 'standard', label: '標準', aisleGap: 1300, sideGap: 50, wallClearance: 800, enabled: true, builtIn: true },
+  { id: 'spacious', label: '広壮', aisleGap: 1600, sideGap: 50, wallClearance: 1000, enabled: true, builtIn: true }
+];
+
+// Aisle gaps (mm) tried when searching for a layout that reaches a required seat count
+export const HEADCOUNT_SEARCH = {
+  minAisleGap: 900,
+  maxAisleGap: 2000,
+  step: 100
+};
+
+// Outline colours assigned to zones in drawing order
+export const ZONE_COLORS = ['#8b5cf6', '#0ea5e9', '#ec4899', '#14b8a6', '#f97316', '#84cc16'];
+
+// How tables are grouped: single rows facing one way, or back-to-back islands
+// 'classroom' lays single rows parallel to a chosen front wall, all facing it
+export type LayoutArrangement = 'single' | 'island' | 'classroom';
+
+export const ARRANGEMENT_CONFIG: Record<LayoutArrangement, { label: string; description: string }> = {
+  single: { label: '通常', description: '片側に椅子を配置' },
+  island: { label: '島型（対面）', description: '2台を背中合わせにし両側に椅子を配置' },
+  classroom: { label: '教室型', description: '全席が前方の壁を向く' }
+};
+
+// How each row is filled:
+// - 'greedy': first enabled type that fits at each position (the original scan)
+// - 'seats': per-row optimisation for the most seats, then the lowest cost
+// - 'costPerSeat': per-row optimisation for the lowest cost per seat, then the most seats
+export type PackingStrategy = 'greedy' | 'seats' | 'costPerSeat';
+
+export const PACKING_CONFIG: Record<PackingStrategy, { label: string; description: string }> = {
+  greedy: { label: '簡易', description: '入る家具から順に配置' },
+  seats: { label: '席数優先', description: '各列の席数を最大化' },
+  costPerSeat: { label: 'コスト優先', description: '1席あたりの費用を最小化' }
+};
+
+// Thresholds for the egress (evacuation route) check, in mm
+export interface EgressRules {
+  maxTravelDistance: number; // Walking distance from any seat to the nearest exit
+  minCorridorWidth: number; // Clear width required along that route
+}
+
+export const DEFAULT_EGRESS_RULES: EgressRules = {
+  maxTravelDistance: 30000,
+  minCorridorWidth: 900
+};
+
+// Width of a newly placed exit or door, in mm
+export const DEFAULT_EXIT_WIDTH = 900;
+
+// What a point being drawn snaps to
+export interface SnapSettings {
+  vertices: boolean; // Corners of the room, holes and zones
+  edges: boolean; // Anywhere on their outlines
+  angleStep: number; // Degrees relative to the previous segment; 0 = off
+  gridMm: number; // Real-world grid anchored at the room's first corner; 0 = off
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  vertices: true,
+  edges: true,
+  angleStep: 15,
+  gridMm: 0
 };
 
-export type LayoutPattern = 'cramped' | 'standard' | 'spacious';
+export const SNAP_ANGLE_STEPS = [15, 45, 90];
 
-export const PATTERN_CONFIG: Record<LayoutPattern, { aisleGap: number; label: string }> = {
-  cramped: { aisleGap: 1000, label: '窮屈' },
-  standard: { aisleGap: 1300, label: '標準' },
-  spacious: { aisleGap: 1600, label: '広壮' }
+// Wheelchair workstation: clear turning circle in front of the desk and the default
+// width of the accessible route kept from it to an exit, in mm
+export const ACCESSIBLE_SEAT = {
+  turningDiameter: 1500,
+  routeWidth: 1200
 };
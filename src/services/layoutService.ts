@@ -0,0 +1,138 @@
+import { LayoutPattern } from '../constants';
+import { BudgetResult, HeadcountResult, PlacedItem } from '../utils/layoutEngine';
+import { EgressReport } from '../utils/egress';
+import {
+  AnalyzeEgressRequest,
+  GenerateLayoutRequest,
+  LayoutJobStep,
+  LayoutPatternResult,
+  LayoutWorkerRequest,
+  LayoutWorkerResponse
+} from '../workers/layoutMessages';
+
+export interface LayoutProgress {
+  step: LayoutJobStep; // Pattern (or search) currently being computed
+  completed: number;
+  total: number;
+}
+
+export interface LayoutJobResults {
+  patterns: Partial<Record<LayoutPattern, LayoutPatternResult>>;
+  headcount?: HeadcountResult;
+  budget?: BudgetResult;
+  zones?: PlacedItem[];
+}
+
+export interface LayoutJob {
+  // Resolves with the results, or null if the job was cancelled
+  promise: Promise<LayoutJobResults | null>;
+  cancel: () => void;
+}
+
+/**
+ * Starts layout generation in a Web Worker so large floors don't freeze the UI.
+ * Each job gets its own worker; cancelling terminates it immediately, even mid-pattern.
+ */
+export function startLayoutJob(
+  request: Omit<GenerateLayoutRequest, 'type'>,
+  onProgress?: (progress: LayoutProgress) => void
+): LayoutJob {
+  const worker = new Worker(new URL('../workers/layoutWorker.ts', import.meta.url), { type: 'module' });
+  const results: LayoutJobResults = { patterns: {} };
+  let settle: (value: typeof results | null) => void = () => {};
+
+  const promise = new Promise<typeof results | null>((resolve, reject) => {
+    settle = resolve;
+
+    worker.onmessage = (e: MessageEvent<LayoutWorkerResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.({ step: message.step, completed: message.completed, total: message.total });
+          break;
+        case 'result':
+          results.patterns[message.pattern] = message.result;
+          break;
+        case 'headcount':
+          results.headcount = message.result;
+          break;
+        case 'budget':
+          results.budget = message.result;
+          break;
+        case 'zones':
+          results.zones = message.items;
+          break;
+        case 'done':
+          worker.terminate();
+          resolve(results);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Layout worker failed'));
+    };
+  });
+
+  const message: LayoutWorkerRequest = { type: 'generate', ...request };
+  worker.postMessage(message);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    }
+  };
+}
+
+export interface EgressJob {
+  // Resolves with the report (null when there is nothing to check), or null if cancelled
+  promise: Promise<EgressReport | null>;
+  cancel: () => void;
+}
+
+/**
+ * Runs the egress check of a layout in its own worker; the walk grid and its flood fills take
+ * too long on large floors to run on every edit in the main thread.
+ */
+export function startEgressCheck(request: Omit<AnalyzeEgressRequest, 'type'>): EgressJob {
+  const worker = new Worker(new URL('../workers/layoutWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (value: EgressReport | null) => void = () => {};
+
+  const promise = new Promise<EgressReport | null>((resolve, reject) => {
+    settle = resolve;
+
+    worker.onmessage = (e: MessageEvent<LayoutWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'egress') {
+        worker.terminate();
+        resolve(message.report);
+      } else if (message.type === 'error') {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Egress worker failed'));
+    };
+  });
+
+  const message: LayoutWorkerRequest = { type: 'egress', ...request };
+  worker.postMessage(message);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    }
+  };
+}
@@ -0,0 +1,55 @@
+// Small wrapper around localStorage for settings that should survive a reload
+
+export const STORAGE_KEYS = {
+  layoutPresets: 'layout-planner.layout-presets',
+  egressRules: 'layout-planner.egress-rules',
+  furnitureCatalog: 'layout-planner.furniture-catalog',
+  chairModels: 'layout-planner.chair-models',
+  wallFurniture: 'layout-planner.wall-furniture',
+  snapSettings: 'layout-planner.snap-settings'
+};
+
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Failed to load ${key} from storage`, error);
+    return fallback;
+  }
+}
+
+export function saveToStorage<T>(key: string, value: T) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save ${key} to storage`, error);
+  }
+}
+
+// Key under which the built-in ids shipped when a list was saved are kept
+const builtInsKey = (key: string) => `${key}.built-ins`;
+
+/**
+ * Restores a saved list of catalog entries. Built-in entries shipped since the list was saved
+ * are appended, so new types show up for existing users; built-ins the user deleted stay
+ * deleted. Entries are kept as saved, invalid ones included: the editors mark them and the
+ * layout skips them.
+ */
+export function loadListFromStorage<T extends { id: string }>(key: string, builtIns: T[]): T[] {
+  const saved = loadFromStorage<unknown>(key, null);
+  if (!Array.isArray(saved)) return builtIns;
+  const restored = saved.filter((entry): entry is T =>
+    typeof entry === 'object' && entry !== null && typeof entry.id === 'string'
+  );
+  // Lists saved before the built-ins were recorded take every built-in they lack
+  const known = new Set(loadFromStorage<string[]>(builtInsKey(key), []));
+  const ids = new Set(restored.map(entry => entry.id));
+  return [...restored, ...builtIns.filter(entry => !ids.has(entry.id) && !known.has(entry.id))];
+}
+
+// Saves a list restored with loadListFromStorage, along with the built-ins it already covers
+export function saveListToStorage<T extends { id: string }>(key: string, entries: T[], builtIns: T[]) {
+  saveToStorage(key, entries);
+  saveToStorage(builtInsKey(key), builtIns.map(entry => entry.id));
+}
@@ -0,0 +1,220 @@
+import { Point } from '../services/geminiService';
+import { isPointInPolygon, PolygonEdit, remapEdgePosition } from './geometry';
+import { PlacedItem, getItemOutlines, getSeatPositions } from './layoutEngine';
+import { getChairModel } from './furnitureShape';
+import {
+  WalkGrid, buildWalkGrid, findExitCells, distanceTransform, corridorMask, findRoutes, floodFill, tracePath,
+  getCellAt, getCellCenter
+} from './walkGrid';
+import { EgressRules } from '../constants';
+
+// A door or emergency exit on the room outline
+export interface RoomExit {
+  id: string;
+  edgeIndex: number; // Polygon edge the exit sits on
+  position: number; // Centre of the opening along the edge, 0 (edge start) to 1 (edge end)
+  width: number; // mm
+  // Hinged door leaf, as seen from inside the room; unset for a plain opening
+  swing?: 'left' | 'right';
+}
+
+export type EgressViolationKind = 'no_route' | 'travel_distance' | 'corridor_width';
+
+export interface EgressViolation {
+  itemId: string;
+  kind: EgressViolationKind;
+  value: number; // mm: travel distance or corridor width of the worst seat at the item (0 for 'no_route')
+  path: Point[]; // Route of that seat, empty for 'no_route'
+}
+
+export interface EgressReport {
+  seats: number; // Seats checked
+  maxTravelDistance: number; // mm, longest seat-to-exit route
+  minCorridorWidth: number; // mm, narrowest point on the best route of any seat
+  longestPath: Point[];
+  violations: EgressViolation[];
+}
+
+// Corridor widths are measured in these steps, up to the largest width that is reported exactly
+const WIDTH_STEP = 100;
+const MAX_MEASURED_WIDTH = 3000;
+
+// Keeps exits on their wall when a room vertex is inserted or removed
+export function remapExits(exits: RoomExit[], before: Point[], after: Point[], edit: PolygonEdit): RoomExit[] {
+  return exits
+    .filter(exit => exit.edgeIndex < before.length)
+    .map(exit => ({ ...exit, ...remapEdgePosition(exit.edgeIndex, exit.position, before, after, edit) }));
+}
+
+// Plan position of an exit opening as a segment on its polygon edge
+export function getExitSegment(exit: RoomExit, polygon: Point[], scale: number): { start: Point; end: Point } {
+  const a = polygon[exit.edgeIndex];
+  const b = polygon[(exit.edgeIndex + 1) % polygon.length];
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const half = Math.min(exit.width * scale, length) / 2 / length;
+  const t = Math.max(half, Math.min(1 - half, exit.position));
+  const at = (u: number) => ({ x: a.x + (b.x - a.x) * u, y: a.y + (b.y - a.y) * u });
+  return { start: at(t - half), end: at(t + half) };
+}
+
+// Number of straight segments approximating a door swing arc
+const SWING_ARC_STEPS = 8;
+
+/**
+ * Area swept by a door leaf opening into the room: a quarter circle around the hinge with
+ * the door width as radius. Nothing may be placed there, so the layout treats it as a hole.
+ */
+export function getDoorSwingZone(exit: RoomExit, polygon: Point[], scale: number): Point[] | null {
+  if (!exit.swing) return null;
+  const { start, end } = getExitSegment(exit, polygon, scale);
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (length === 0) return null;
+
+  // Inward normal of the wall at the opening
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  let n = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+  if (!isPointInPolygon({ x: mid.x + n.x, y: mid.y + n.y }, polygon)) n = { x: -n.x, y: -n.y };
+
+  // Facing the door from inside means looking along -n; its left is (-n.y, n.x) on screen
+  const left = { x: -n.y, y: n.x };
+  const startIsLeft = (start.x - mid.x) * left.x + (start.y - mid.y) * left.y > 0;
+  const hinge = (exit.swing === 'left') === startIsLeft ? start : end;
+  const closed = hinge === start ? end : start;
+  const u = { x: (closed.x - hinge.x) / length, y: (closed.y - hinge.y) / length };
+
+  const zone: Point[] = [hinge];
+  for (let k = 0; k <= SWING_ARC_STEPS; k++) {
+    const a = (k / SWING_ARC_STEPS) * (Math.PI / 2);
+    zone.push({
+      x: hinge.x + length * (Math.cos(a) * u.x + Math.sin(a) * n.x),
+      y: hinge.y + length * (Math.cos(a) * u.y + Math.sin(a) * n.y)
+    });
+  }
+  return zone;
+}
+
+// Cells a seated person can step into when standing up, with the distance from the seat (mm)
+function getStandingCells(
+  grid: WalkGrid, center: Point, outward: Point, chairDepth: number, scale: number
+): { cell: number; offset: number }[] {
+  const { cols, rows, cellPx } = grid;
+  const step = (chairDepth / 2) * scale + cellPx;
+  const stand = getCellAt(grid, { x: center.x + outward.x * step, y: center.y + outward.y * step });
+  if (stand === -1) return [];
+  const col = stand % cols;
+  const row = (stand - col) / cols;
+
+  const cells: { cell: number; offset: number }[] = [];
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const c = col + dc;
+      const r = row + dr;
+      if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+      const cell = r * cols + c;
+      if (!grid.walkable[cell]) continue;
+      const p = getCellCenter(grid, cell);
+      cells.push({ cell, offset: Math.hypot(p.x - center.x, p.y - center.y) / scale });
+    }
+  }
+  return cells;
+}
+
+// Best entry of `cells` on the given route map
+function nearest(cells: { cell: number; offset: number }[], dist: Float32Array) {
+  let best: { cell: number; distance: number } | null = null;
+  cells.forEach(({ cell, offset }) => {
+    const d = dist[cell] + offset;
+    if (Number.isFinite(d) && (!best || d < best.distance)) best = { cell, distance: d };
+  });
+  return best as { cell: number; distance: number } | null;
+}
+
+/**
+ * Checks that everyone can get out: finds the walking route from every seat to the nearest
+ * exit around furniture and holes, measures its length and the narrowest corridor on it,
+ * and flags the seats that break the given rules. Returns null when there is nothing to check.
+ */
+export function analyzeEgress(
+  items: PlacedItem[], polygon: Point[], holes: Point[][], exits: RoomExit[], scale: number, rules: EgressRules
+): EgressReport | null {
+  const validExits = exits.filter(e => e.edgeIndex < polygon.length);
+  if (polygon.length < 3 || validExits.length === 0 || items.length === 0) return null;
+
+  const openings = validExits.map(e => ({ ...getExitSegment(e, polygon, scale), width: e.width }));
+  const grid = buildWalkGrid(polygon, [...holes, ...items.flatMap(item => getItemOutlines(item, scale))], openings, scale);
+  const exitCells = findExitCells(grid, openings);
+
+  const clearance = distanceTransform(grid, i => grid.obstacle[i] === 1);
+  const anyRoute = findRoutes(grid, grid.walkable, exitCells);
+  const compliantRoute = findRoutes(grid, corridorMask(grid, clearance, rules.minCorridorWidth), exitCells);
+
+  const seats = items.flatMap(item => getSeatPositions(item, scale).map(seat => ({
+    item,
+    seat,
+    cells: getStandingCells(grid, seat.center, seat.outward, getChairModel(item.type).depth, scale)
+  })));
+
+  // Widest corridor each seat can still get out through, found by widening step by step
+  const seatWidth = seats.map(() => 0);
+  const firstWidth = Math.ceil((grid.cellMm * 2) / WIDTH_STEP) * WIDTH_STEP;
+  for (let width = firstWidth; width <= MAX_MEASURED_WIDTH; width += WIDTH_STEP) {
+    const reached = floodFill(grid, corridorMask(grid, clearance, width), exitCells);
+    let anyReached = false;
+    seats.forEach((s, k) => {
+      const stillOpen = width === firstWidth || seatWidth[k] === width - WIDTH_STEP;
+      if (stillOpen && s.cells.some(({ cell }) => reached[cell])) {
+        seatWidth[k] = width;
+        anyReached = true;
+      }
+    });
+    if (!anyReached) break;
+  }
+
+  const violations: EgressViolation[] = [];
+  const worst = new Map<string, EgressViolation>();
+  const flag = (v: EgressViolation, isWorse: (current: EgressViolation) => boolean) => {
+    const key = `${v.itemId}:${v.kind}`;
+    const current = worst.get(key);
+    if (!current || isWorse(current)) worst.set(key, v);
+  };
+
+  let maxTravelDistance = 0;
+  let minCorridorWidth = Infinity;
+  let longestPath: Point[] = [];
+
+  seats.forEach((s, k) => {
+    const compliant = nearest(s.cells, compliantRoute.dist);
+    const any = nearest(s.cells, anyRoute.dist);
+    if (!any) {
+      flag({ itemId: s.item.id, kind: 'no_route', value: 0, path: [] }, () => false);
+      return;
+    }
+
+    // Prefer the route that keeps the required width; fall back to the shortest way out
+    const route = compliant ?? any;
+    const path = tracePath(grid, compliant ? compliantRoute.parent : anyRoute.parent, route.cell, s.seat.center);
+    const width = seatWidth[k] || grid.cellMm;
+
+    if (route.distance > maxTravelDistance) {
+      maxTravelDistance = route.distance;
+      longestPath = path;
+    }
+    minCorridorWidth = Math.min(minCorridorWidth, width);
+
+    if (!compliant) {
+      flag({ itemId: s.item.id, kind: 'corridor_width', value: width, path }, current => width < current.value);
+    }
+    if (route.distance > rules.maxTravelDistance) {
+      flag({ itemId: s.item.id, kind: 'travel_distance', value: route.distance, path }, current => route.distance > current.value);
+    }
+  });
+
+  violations.push(...worst.values());
+  return {
+    seats: seats.length,
+    maxTravelDistance: Math.round(maxTravelDistance),
+    minCorridorWidth: Number.isFinite(minCorridorWidth) ? minCorridorWidth : 0,
+    longestPath,
+    violations
+  };
+}
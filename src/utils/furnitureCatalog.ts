@@ -0,0 +1,363 @@
+import { ChairModel, FurnitureSet, FurnitureShape, WallFurniture, DEFAULT_CHAIR_MODEL, FURNITURE_SHAPE_LABELS } from '../constants';
+import { getSeatCapacity, getShape } from './furnitureShape';
+
+// Chair model a type refers to, falling back to the first one in the catalog
+export function resolveChairModel(type: FurnitureSet, chairModels: ChairModel[]): ChairModel {
+  return chairModels.find(c => c.id === type.chairModelId) ?? chairModels[0] ?? DEFAULT_CHAIR_MODEL;
+}
+
+// Copy of a type carrying its chair model, as the layout engine expects
+export function withChairModel(type: FurnitureSet, chairModels: ChairModel[]): FurnitureSet {
+  return { ...type, chair: resolveChairModel(type, chairModels) };
+}
+
+export function validateChairModel(chair: ChairModel): string[] {
+  const errors: string[] = [];
+  if (!chair.name.trim()) errors.push('名前を入力してください');
+  if (!(chair.width > 0)) errors.push('幅を入力してください');
+  if (!(chair.depth > 0)) errors.push('奥行を入力してください');
+  if (!(chair.unitPrice >= 0)) errors.push('単価は0円以上にしてください');
+  return errors;
+}
+
+// Problems that keep a wall furniture type out of the layout
+export function validateWallFurniture(item: WallFurniture): string[] {
+  const errors: string[] = [];
+  if (!item.name.trim()) errors.push('名前を入力してください');
+  if (!(item.tableWidth > 0)) errors.push('幅を入力してください');
+  if (!(item.tableDepth > 0)) errors.push('奥行を入力してください');
+  if (!(item.unitPrice >= 0)) errors.push('単価は0円以上にしてください');
+  const { quantity } = item;
+  if (quantity.mode === 'fixed' && !(Number.isInteger(quantity.count) && quantity.count >= 0)) {
+    errors.push('台数は0以上の整数にしてください');
+  }
+  if (quantity.mode === 'perSeats' && !(Number.isInteger(quantity.seats) && quantity.seats >= 1)) {
+    errors.push('席数は1以上の整数にしてください');
+  }
+  return errors;
+}
+
+/**
+ * Problems that keep a furniture type out of the layout, as messages for the catalog editor.
+ * An empty list means the type can be placed with the given chair.
+ */
+export function validateFurnitureSet(type: FurnitureSet, chair: ChairModel = DEFAULT_CHAIR_MODEL): string[] {
+  const errors: string[] = [];
+  if (!type.name.trim()) errors.push('名前を入力してください');
+  if (!(type.tableWidth > 0)) errors.push('幅を入力してください');
+  if (!(type.tableDepth > 0)) errors.push('奥行を入力してください');
+  const shape = getShape(type);
+  if (shape === 'lDesk' && !((type.returnLength ?? 0) > type.tableDepth)) {
+    errors.push('袖の長さは奥行より長くしてください');
+  }
+  if (!Number.isInteger(type.chairCount) || type.chairCount < 1) {
+    errors.push('席数は1以上の整数にしてください');
+  } else if (type.tableWidth > 0 && type.chairCount > getSeatCapacity(type, chair)) {
+    const capacity = getSeatCapacity(type, chair);
+    errors.push(shape === 'booth'
+      ? `このブースの席数は最大${capacity}席です`
+      : `${chair.name}${type.chairCount}脚（幅${chair.width}mm）が机に収まりません（最大${capacity}脚）`);
+  }
+  if (!(type.unitPrice >= 0)) errors.push('単価は0円以上にしてください');
+  if (type.maxQuantity !== undefined && !(Number.isInteger(type.maxQuantity) && type.maxQuantity >= 0)) {
+    errors.push('在庫数は0以上の整数にしてください');
+  }
+  return errors;
+}
+
+export const isFurnitureSetValid = (type: FurnitureSet, chair?: ChairModel) => validateFurnitureSet(type, chair).length === 0;
+
+
+// Colour given to furniture types that are added without one
+export const NEW_TYPE_COLOR = '#6366f1';
+
+// Columns of the catalog CSV, in export order
+const CSV_COLUMNS = [
+  'id', 'name', 'sku', 'vendor', 'shape', 'width_mm', 'depth_mm', 'return_mm', 'seats', 'chair_model',
+  'list_price', 'net_price', 'stock', 'color', 'enabled'
+] as const;
+type CsvColumn = typeof CSV_COLUMNS[number];
+// depth_mm may be left empty for round tables
+const REQUIRED_COLUMNS: CsvColumn[] = ['name', 'width_mm', 'depth_mm', 'seats', 'net_price'];
+
+export type CatalogFormat = 'csv' | 'json';
+
+export interface CatalogImportError {
+  line: number; // CSV line, or entry number for JSON
+  message: string;
+}
+
+// Imported row; colour and enabled flag are only set when the file gives them. Optional
+// fields whose column is in the file but empty are set to undefined, which clears them on merge
+export type ImportedFurnitureSet = Omit<FurnitureSet, 'color'> & { color?: string };
+
+export interface CatalogImportResult {
+  format: CatalogFormat;
+  types: ImportedFurnitureSet[];
+  errors: CatalogImportError[];
+}
+
+// Fields compared in the import preview, with their labels and units
+export const CATALOG_DIFF_FIELDS = {
+  name: { label: '名前', unit: '' },
+  shape: { label: '形状', unit: '' },
+  tableWidth: { label: '幅', unit: 'mm' },
+  tableDepth: { label: '奥行', unit: 'mm' },
+  returnLength: { label: '袖の長さ', unit: 'mm' },
+  chairCount: { label: '席数', unit: '席' },
+  chairModelId: { label: '椅子', unit: '' },
+  listPrice: { label: '定価', unit: '円' },
+  unitPrice: { label: '単価', unit: '円' },
+  maxQuantity: { label: '在庫', unit: '台' },
+  sku: { label: '品番', unit: '' },
+  vendor: { label: 'メーカー', unit: '' }
+} satisfies Partial<Record<keyof FurnitureSet, { label: string; unit: string }>>;
+export type CatalogDiffField = keyof typeof CATALOG_DIFF_FIELDS;
+
+export interface CatalogChange {
+  kind: 'added' | 'changed';
+  type: FurnitureSet; // Type as it will be after the import
+  fields: { field: CatalogDiffField; before: FurnitureSet[CatalogDiffField]; after: FurnitureSet[CatalogDiffField] }[];
+}
+
+const escapeCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function exportCatalogCsv(types: FurnitureSet[]): string {
+  const rows = types.map(t => [
+    t.id, t.name, t.sku ?? '', t.vendor ?? '', getShape(t), t.tableWidth, t.tableDepth, t.returnLength ?? '',
+    t.chairCount, t.chairModelId ?? '',
+    t.listPrice ?? '', t.unitPrice, t.maxQuantity ?? '', t.color, t.enabled === false ? 0 : 1
+  ].map(v => escapeCsv(String(v))).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function exportCatalogJson(types: FurnitureSet[]): string {
+  return JSON.stringify(types, null, 2);
+}
+
+// Splits CSV text into records, keeping the line each record starts on
+function parseCsvRecords(text: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) records.push({ line: start, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRecord();
+  return records;
+}
+
+// Spreadsheets export amounts as "50,000" or "¥50,000"
+const parseNumber = (raw: unknown): number => {
+  if (typeof raw === 'number') return raw;
+  if (typeof raw !== 'string' || raw.trim() === '') return NaN;
+  return Number(raw.replace(/[,¥￥円\s]/g, ''));
+};
+
+/**
+ * Checks the values of one imported row and builds the furniture type from it.
+ * mm values must be positive, yen values whole and not negative.
+ */
+function readRow(
+  row: Partial<Record<CsvColumn, unknown>>, line: number, errors: CatalogImportError[], chairModels: ChairModel[]
+): ImportedFurnitureSet | null {
+  const before = errors.length;
+  const fail = (message: string) => errors.push({ line, message });
+
+  const name = String(row.name ?? '').trim();
+  if (!name) fail('名前が空です');
+
+  const isEmpty = (column: CsvColumn) => row[column] === undefined || row[column] === '' || row[column] === null;
+  const mm = (column: CsvColumn, label: string) => {
+    const value = parseNumber(row[column]);
+    if (!Number.isFinite(value) || value <= 0) fail(`${label}「${row[column] ?? ''}」は正のmm値ではありません`);
+    return value;
+  };
+  const yen = (column: CsvColumn, label: string, optional = false) => {
+    if (optional && isEmpty(column)) return undefined;
+    const value = parseNumber(row[column]);
+    if (!Number.isInteger(value) || value < 0) fail(`${label}「${row[column] ?? ''}」は0以上の円単位の金額ではありません`);
+    return value;
+  };
+
+  const shapeName = String(row.shape ?? '').trim();
+  const shape = (shapeName || 'rect') as FurnitureShape;
+  if (!(shape in FURNITURE_SHAPE_LABELS)) fail(`形状「${shapeName}」は ${Object.keys(FURNITURE_SHAPE_LABELS).join(' / ')} のいずれかにしてください`);
+  const tableWidth = mm('width_mm', '幅');
+  // A round table is as deep as it is wide
+  const tableDepth = shape === 'round' && isEmpty('depth_mm') ? tableWidth : mm('depth_mm', '奥行');
+  const returnLength = isEmpty('return_mm') ? undefined : mm('return_mm', '袖の長さ');
+  const chairCount = parseNumber(row.seats);
+  if (!Number.isInteger(chairCount) || chairCount < 1) fail(`席数「${row.seats ?? ''}」は1以上の整数ではありません`);
+  const listPrice = yen('list_price', '定価', true);
+  const unitPrice = yen('net_price', '単価');
+  // An empty stock column means no limit
+  const stock = isEmpty('stock') ? undefined : parseNumber(row.stock);
+  if (stock !== undefined && !(Number.isInteger(stock) && stock >= 0)) fail(`在庫「${row.stock}」は0以上の整数ではありません`);
+  if (errors.length > before) return null;
+
+  const color = String(row.color ?? '').trim();
+  const enabled = String(row.enabled ?? '').trim().toLowerCase();
+  const type: ImportedFurnitureSet = {
+    id: String(row.id ?? '').trim(),
+    name,
+    tableWidth,
+    tableDepth,
+    chairCount,
+    unitPrice: unitPrice!
+  };
+  if (/^#[0-9a-f]{6}$/i.test(color)) type.color = color;
+  if (enabled) type.enabled = !['0', 'false', 'no'].includes(enabled);
+  // Set when given; an empty cell of a column the file has clears the field
+  const optional = <K extends keyof ImportedFurnitureSet>(field: K, column: CsvColumn, value: ImportedFurnitureSet[K] | undefined) => {
+    if (value !== undefined || row[column] !== undefined) type[field] = value as ImportedFurnitureSet[K];
+  };
+  optional('shape', 'shape', shapeName ? shape : undefined);
+  optional('returnLength', 'return_mm', returnLength);
+  optional('listPrice', 'list_price', listPrice);
+  optional('maxQuantity', 'stock', stock);
+  optional('chairModelId', 'chair_model', String(row.chair_model ?? '').trim() || undefined);
+  optional('sku', 'sku', String(row.sku ?? '').trim() || undefined);
+  optional('vendor', 'vendor', String(row.vendor ?? '').trim() || undefined);
+
+  // Dimensions that parse but cannot seat the chairs are rejected as well
+  const resolved = { ...type, color: type.color ?? NEW_TYPE_COLOR };
+  const problems = validateFurnitureSet(resolved, resolveChairModel(resolved, chairModels));
+  problems.forEach(fail);
+  return problems.length > 0 ? null : type;
+}
+
+export function parseCatalogCsv(text: string, chairModels: ChairModel[]): CatalogImportResult {
+  const errors: CatalogImportError[] = [];
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (records.length === 0) {
+    return { format: 'csv', types: [], errors: [{ line: 1, message: 'データがありません' }] };
+  }
+
+  const header = records[0].cells.map(c => c.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(c => !header.includes(c));
+  if (missing.length > 0) {
+    return { format: 'csv', types: [], errors: [{ line: records[0].line, message: `必須の列がありません: ${missing.join(', ')}` }] };
+  }
+
+  const types: ImportedFurnitureSet[] = [];
+  records.slice(1).forEach(({ line, cells }) => {
+    const row: Partial<Record<CsvColumn, string>> = {};
+    header.forEach((column, i) => {
+      // Cells a short row leaves out are empty, not missing
+      if ((CSV_COLUMNS as readonly string[]).includes(column)) row[column as CsvColumn] = cells[i]?.trim() ?? '';
+    });
+    const type = readRow(row, line, errors, chairModels);
+    if (type) types.push(type);
+  });
+  return { format: 'csv', types, errors };
+}
+
+export function parseCatalogJson(text: string, chairModels: ChairModel[]): CatalogImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { format: 'json', types: [], errors: [{ line: 1, message: 'JSONとして読み込めません' }] };
+  }
+  // Accept a bare array or an object wrapping it, as other tools tend to export
+  const entries = Array.isArray(data) ? data : (data as { types?: unknown })?.types;
+  if (!Array.isArray(entries)) {
+    return { format: 'json', types: [], errors: [{ line: 1, message: '家具の配列が見つかりません' }] };
+  }
+
+  const errors: CatalogImportError[] = [];
+  const types: ImportedFurnitureSet[] = [];
+  entries.forEach((entry, i) => {
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push({ line: i + 1, message: '家具のデータではありません' });
+      return;
+    }
+    const e = entry as Partial<Record<keyof FurnitureSet, unknown>>;
+    const type = readRow({
+      id: e.id, name: e.name, sku: e.sku, vendor: e.vendor, shape: e.shape,
+      width_mm: e.tableWidth, depth_mm: e.tableDepth, return_mm: e.returnLength, seats: e.chairCount, chair_model: e.chairModelId,
+      list_price: e.listPrice, net_price: e.unitPrice, stock: e.maxQuantity, color: e.color,
+      enabled: typeof e.enabled === 'boolean' ? String(e.enabled) : ''
+    }, i + 1, errors, chairModels);
+    if (type) types.push(type);
+  });
+  return { format: 'json', types, errors };
+}
+
+export function parseCatalogFile(fileName: string, text: string, chairModels: ChairModel[]): CatalogImportResult {
+  return /\.json$/i.test(fileName) ? parseCatalogJson(text, chairModels) : parseCatalogCsv(text, chairModels);
+}
+
+/**
+ * Merges imported types into the catalog. Rows match an existing type by id, then by SKU;
+ * matched types take the imported values, the rest are added. Empty optional cells clear the
+ * field, while columns missing from the file leave it as it was. Types missing from the file
+ * are kept, since a supplier's list only covers part of the catalog.
+ */
+export function mergeCatalog(current: FurnitureSet[], imported: ImportedFurnitureSet[]): { types: FurnitureSet[]; changes: CatalogChange[] } {
+  const types = [...current];
+  const changes: CatalogChange[] = [];
+
+  imported.forEach(row => {
+    let index = row.id ? types.findIndex(t => t.id === row.id) : -1;
+    if (index === -1 && row.sku) index = types.findIndex(t => t.sku === row.sku);
+
+    if (index === -1) {
+      const added: FurnitureSet = {
+        ...row,
+        id: row.id && !types.some(t => t.id === row.id) ? row.id : `type-${crypto.randomUUID()}`,
+        color: row.color ?? NEW_TYPE_COLOR
+      };
+      types.push(added);
+      changes.push({ kind: 'added', type: added, fields: [] });
+      return;
+    }
+
+    const before = types[index];
+    const after: FurnitureSet = { ...before, ...row, id: before.id, color: row.color ?? before.color };
+    // An unset shape is a rectangle, so it does not show up as a change
+    const value = (t: FurnitureSet, field: CatalogDiffField) => field === 'shape' ? getShape(t) : t[field];
+    const fields = (Object.keys(CATALOG_DIFF_FIELDS) as CatalogDiffField[])
+      .filter(field => value(before, field) !== value(after, field))
+      .map(field => ({ field, before: value(before, field), after: value(after, field) }));
+    types[index] = after;
+    if (fields.length > 0) changes.push({ kind: 'changed', type: after, fields });
+  });
+
+  return { types, changes };
+}
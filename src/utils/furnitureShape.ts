@@ -0,0 +1,217 @@
+import { Point } from '../services/geminiService';
+import {
+  FurnitureSet, FurnitureShape, ChairModel, DEFAULT_CHAIR_MODEL, LayoutArrangement, ACCESSIBLE_SEAT
+} from '../constants';
+
+// Axis-aligned rectangle in an item's own frame
+export interface ShapeRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// A drawn piece of furniture; circles fill their bounding box
+export interface ShapePiece extends ShapeRect {
+  kind: 'table' | 'bench';
+  outline: 'rect' | 'circle';
+}
+
+// A seat: where the chair (or bench place) is centred and the unit direction its occupant
+// stands up into, away from the table
+export interface ShapeSeat {
+  center: Point;
+  outward: Point;
+}
+
+/**
+ * Footprint of a furniture item in its own frame, in mm, before rotation.
+ * `parts` are rectangles whose union covers everything the item needs (tables, chairs and
+ * the space to pull them out); collision tests run on them, so a round table does not block
+ * the corners of its bounding box.
+ */
+export interface FurnitureGeometry {
+  w: number;
+  h: number;
+  parts: ShapeRect[];
+  pieces: ShapePiece[];
+  seats: ShapeSeat[];
+  chairs: boolean; // False when the seats are fixed benches rather than separate chairs
+}
+
+// Booth benches are built in, so they do not depend on the chair model
+const BENCH_DEPTH = 600;
+const BENCH_SEAT_WIDTH = 600;
+
+// Horizontal slabs used to cover a round footprint
+const ROUND_SLABS = 5;
+
+export const getShape = (type: FurnitureSet): FurnitureShape => type.shape ?? 'rect';
+
+// Chair model seated at a furniture type, resolved when the layout was requested
+export const getChairModel = (type: FurnitureSet): ChairModel => type.chair ?? DEFAULT_CHAIR_MODEL;
+
+// Island and classroom rows need tables with a straight chair side
+export function supportsArrangement(type: FurnitureSet, arrangement: LayoutArrangement): boolean {
+  const shape = getShape(type);
+  if (arrangement === 'island') return shape === 'rect';
+  if (arrangement === 'classroom') return shape === 'rect' || shape === 'lDesk';
+  return true;
+}
+
+// Most seats that fit at a type with the given chair
+export function getSeatCapacity(type: FurnitureSet, chair: ChairModel): number {
+  switch (getShape(type)) {
+    case 'round':
+      return Math.floor((Math.PI * type.tableWidth) / chair.width);
+    case 'lDesk':
+      return Math.floor(Math.max(0, type.tableWidth - type.tableDepth) / chair.width);
+    case 'booth':
+      return Math.floor(type.tableWidth / BENCH_SEAT_WIDTH) * 2;
+    default:
+      return Math.floor(type.tableWidth / chair.width);
+  }
+}
+
+// `count` seats spread evenly along [x0, x0 + length] at height y
+function seatRow(count: number, seatWidth: number, x0: number, length: number, y: number, outward: Point): ShapeSeat[] {
+  const spacing = (length - count * seatWidth) / (count + 1);
+  return Array.from({ length: count }, (_, i) => ({
+    center: { x: x0 + spacing + i * (seatWidth + spacing) + seatWidth / 2, y },
+    outward
+  }));
+}
+
+const UP = { x: 0, y: -1 };
+const DOWN = { x: 0, y: 1 };
+
+/**
+ * Builds the footprint of a type. Rectangular tables have their chair row along the bottom
+ * (islands: two tables back to back with a row on each side); a wheelchair workstation has
+ * its table on top and a turning circle below instead of chairs.
+ */
+export function getFurnitureGeometry(
+  type: FurnitureSet, arrangement: LayoutArrangement = 'single', accessible = false
+): FurnitureGeometry {
+  const chair = getChairModel(type);
+  const { tableWidth: tw, tableDepth: td, chairCount: n } = type;
+  const cw = chair.width;
+  const cd = chair.depth;
+
+  if (accessible) {
+    const d = ACCESSIBLE_SEAT.turningDiameter;
+    const w = Math.max(tw, d);
+    const h = td + d;
+    return {
+      w, h,
+      parts: [{ x: 0, y: 0, w, h }],
+      pieces: [{ kind: 'table', outline: 'rect', x: (w - tw) / 2, y: 0, w: tw, h: td }],
+      seats: [{ center: { x: w / 2, y: h - cd / 2 }, outward: DOWN }],
+      chairs: false
+    };
+  }
+
+  if (type.category === 'wall') {
+    // Back against the wall along the top edge, nobody sits at it
+    return {
+      w: tw, h: td,
+      parts: [{ x: 0, y: 0, w: tw, h: td }],
+      pieces: [{ kind: 'table', outline: 'rect', x: 0, y: 0, w: tw, h: td }],
+      seats: [],
+      chairs: false
+    };
+  }
+
+  switch (getShape(type)) {
+    case 'round': {
+      // Chairs around the table, the first one at the bottom; the covering circle reaches
+      // the outer corners of the chairs
+      const r = tw / 2;
+      const outer = Math.hypot(r + cd, cw / 2);
+      const c = { x: outer, y: outer };
+      const slab = (2 * outer) / ROUND_SLABS;
+      const parts = Array.from({ length: ROUND_SLABS }, (_, i) => {
+        const y0 = i * slab - outer;
+        const y1 = y0 + slab;
+        const nearest = y0 <= 0 && y1 >= 0 ? 0 : Math.min(Math.abs(y0), Math.abs(y1));
+        const half = Math.sqrt(outer * outer - nearest * nearest);
+        return { x: c.x - half, y: i * slab, w: half * 2, h: slab };
+      });
+      return {
+        w: outer * 2,
+        h: outer * 2,
+        parts,
+        pieces: [{ kind: 'table', outline: 'circle', x: c.x - r, y: c.y - r, w: tw, h: tw }],
+        seats: Array.from({ length: n }, (_, i) => {
+          const a = Math.PI / 2 + (2 * Math.PI * i) / n;
+          const outward = { x: Math.cos(a), y: Math.sin(a) };
+          return { center: { x: c.x + outward.x * (r + cd / 2), y: c.y + outward.y * (r + cd / 2) }, outward };
+        }),
+        chairs: true
+      };
+    }
+
+    case 'lDesk': {
+      // Main top along the back, the return wing down the right side, chairs in the corner
+      const wing = Math.max(type.returnLength ?? td, td);
+      const seatWidth = tw - td;
+      const h = Math.max(wing, td + cd);
+      return {
+        w: tw,
+        h,
+        parts: [
+          { x: 0, y: 0, w: tw, h: td },
+          { x: seatWidth, y: 0, w: td, h: wing },
+          { x: 0, y: td, w: seatWidth, h: cd }
+        ],
+        pieces: [
+          { kind: 'table', outline: 'rect', x: 0, y: 0, w: tw, h: td },
+          { kind: 'table', outline: 'rect', x: seatWidth, y: td, w: td, h: wing - td }
+        ],
+        seats: seatRow(n, cw, 0, seatWidth, td + cd / 2, DOWN),
+        chairs: true
+      };
+    }
+
+    case 'booth': {
+      // Benches on both long sides, the top one taking the odd seat
+      const h = BENCH_DEPTH * 2 + td;
+      const top = Math.ceil(n / 2);
+      return {
+        w: tw,
+        h,
+        parts: [{ x: 0, y: 0, w: tw, h }],
+        pieces: [
+          { kind: 'bench', outline: 'rect', x: 0, y: 0, w: tw, h: BENCH_DEPTH },
+          { kind: 'table', outline: 'rect', x: 0, y: BENCH_DEPTH, w: tw, h: td },
+          { kind: 'bench', outline: 'rect', x: 0, y: BENCH_DEPTH + td, w: tw, h: BENCH_DEPTH }
+        ],
+        seats: [
+          ...seatRow(top, BENCH_SEAT_WIDTH, 0, tw, BENCH_DEPTH / 2, UP),
+          ...seatRow(n - top, BENCH_SEAT_WIDTH, 0, tw, h - BENCH_DEPTH / 2, DOWN)
+        ],
+        chairs: false
+      };
+    }
+
+    default: {
+      const island = arrangement === 'island';
+      const tables = island ? 2 : 1;
+      const tableY = island ? cd : 0;
+      const h = td * tables + cd * (island ? 2 : 1);
+      return {
+        w: tw,
+        h,
+        parts: [{ x: 0, y: 0, w: tw, h }],
+        pieces: Array.from({ length: tables }, (_, t) => ({
+          kind: 'table' as const, outline: 'rect' as const, x: 0, y: tableY + t * td, w: tw, h: td
+        })),
+        seats: [
+          ...(island ? seatRow(n, cw, 0, tw, cd / 2, UP) : []),
+          ...seatRow(n, cw, 0, tw, h - cd / 2, DOWN)
+        ],
+        chairs: true
+      };
+    }
+  }
+}
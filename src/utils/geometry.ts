@@ -57,3 +57,307 @@ export function snapToRectilinear(points: Point[], threshold: number = 20): Poin
     y: newYs[i]
   }));
 }
+
+// Helper to check if a point is inside a polygon (Ray casting algorithm)
+export function isPointInPolygon(point: Point, vs: Point[]) {
+  // ray-casting algorithm based on
+  // https://github.com/substack/point-in-polygon
+  var x = point.x, y = point.y;
+  
+  var inside = false;
+  for (var i = 0, j = vs.length - 1; i < vs.length; j = i++) {
+      var xi = vs[i].x, yi = vs[i].y;
+      var xj = vs[j].x, yj = vs[j].y;
+      
+      var intersect = ((yi > y) != (yj > y))
+          && (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
+      if (intersect) inside = !inside;
+  }
+  
+  return inside;
+}
+
+/**
+ * Checks whether segment a-b passes through the open interior of an axis-aligned rectangle.
+ * Touching the rectangle border (e.g. a desk flush against a wall) does not count.
+ *
+ * Uses Liang-Barsky clipping: the segment is clipped to the rectangle and the clipped
+ * part must have length and a midpoint strictly inside.
+ */
+export function segmentCrossesRect(a: Point, b: Point, x: number, y: number, w: number, h: number): boolean {
+  const eps = 1e-9;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+
+  const clip = (p: number, q: number) => {
+    if (Math.abs(p) < eps) return q >= 0; // Parallel: keep only if inside this slab
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return false;
+      if (r > t0) t0 = r;
+    } else {
+      if (r < t0) return false;
+      if (r < t1) t1 = r;
+    }
+    return true;
+  };
+
+  if (!clip(-dx, a.x - x) || !clip(dx, x + w - a.x) || !clip(-dy, a.y - y) || !clip(dy, y + h - a.y)) {
+    return false;
+  }
+  if (t1 - t0 < eps) return false;
+
+  const tm = (t0 + t1) / 2;
+  const mx = a.x + dx * tm;
+  const my = a.y + dy * tm;
+  return mx > x + eps && mx < x + w - eps && my > y + eps && my < y + h - eps;
+}
+
+// True if any edge of the (closed) polygon passes through the rectangle interior
+export function polygonEdgesCrossRect(poly: Point[], x: number, y: number, w: number, h: number): boolean {
+  for (let i = 0; i < poly.length; i++) {
+    if (segmentCrossesRect(poly[i], poly[(i + 1) % poly.length], x, y, w, h)) return true;
+  }
+  return false;
+}
+
+/**
+ * Exact test for an axis-aligned rectangle lying fully inside a polygon:
+ * no polygon edge may cut through it, and its center must be inside.
+ */
+export function isRectInsidePolygon(x: number, y: number, w: number, h: number, poly: Point[]): boolean {
+  if (polygonEdgesCrossRect(poly, x, y, w, h)) return false;
+  return isPointInPolygon({ x: x + w / 2, y: y + h / 2 }, poly);
+}
+
+/**
+ * Exact test for an axis-aligned rectangle overlapping a polygon (e.g. a pillar).
+ * Catches edge crossings, polygons entirely inside the rectangle, and the rectangle
+ * entirely inside the polygon.
+ */
+export function doesRectOverlapPolygon(x: number, y: number, w: number, h: number, poly: Point[]): boolean {
+  if (poly.length === 0) return false;
+
+  // Quick reject on bounding boxes
+  const minX = Math.min(...poly.map(p => p.x));
+  const maxX = Math.max(...poly.map(p => p.x));
+  const minY = Math.min(...poly.map(p => p.y));
+  const maxY = Math.max(...poly.map(p => p.y));
+  if (maxX <= x || minX >= x + w || maxY <= y || minY >= y + h) return false;
+
+  if (polygonEdgesCrossRect(poly, x, y, w, h)) return true;
+  // No edge crossings: either fully disjoint, or one contains the other
+  return isPointInPolygon({ x: x + w / 2, y: y + h / 2 }, poly)
+    || poly.some(p => p.x > x && p.x < x + w && p.y > y && p.y < y + h);
+}
+
+// Rotates a point around `origin` by `angle` radians (clockwise on screen, since Y points down)
+export function rotatePoint(p: Point, angle: number, origin: Point = { x: 0, y: 0 }): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = p.x - origin.x;
+  const dy = p.y - origin.y;
+  return {
+    x: origin.x + dx * cos - dy * sin,
+    y: origin.y + dx * sin + dy * cos
+  };
+}
+
+// Shortest distance from point p to segment a-b
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Axis-aligned rectangle with opposite corners a and b
+export function rectanglePolygon(a: Point, b: Point): Point[] {
+  return [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+}
+
+// Regular polygon approximating a circle, e.g. a round pillar
+export function circlePolygon(center: Point, radius: number, segments: number = 24): Point[] {
+  return Array.from({ length: segments }, (_, i) => {
+    const a = (2 * Math.PI * i) / segments;
+    return { x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a) };
+  });
+}
+
+// Ramer–Douglas–Peucker: keeps only the vertices of an open path that stray more than
+// `tolerance` from the straight line between the vertices kept around them
+export function simplifyPath(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  let index = -1;
+  let max = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], first, last);
+    if (d > max) {
+      max = d;
+      index = i;
+    }
+  }
+  if (max <= tolerance) return [first, last];
+  const before = simplifyPath(points.slice(0, index + 1), tolerance);
+  const after = simplifyPath(points.slice(index), tolerance);
+  return [...before.slice(0, -1), ...after];
+}
+
+// Drops vertices of a closed polygon that lie within `tolerance` of the line joining their
+// neighbours (including repeated points), until none are left
+export function removeCollinear(points: Point[], tolerance: number): Point[] {
+  const result = [...points];
+  let removed = true;
+  while (removed && result.length > 3) {
+    removed = false;
+    for (let i = 0; i < result.length && result.length > 3; i++) {
+      const prev = result[(i - 1 + result.length) % result.length];
+      const next = result[(i + 1) % result.length];
+      if (distanceToSegment(result[i], prev, next) <= tolerance) {
+        result.splice(i, 1);
+        removed = true;
+        i--;
+      }
+    }
+  }
+  return result;
+}
+
+// Degrees from horizontal / vertical within which orthogonalize straightens an edge
+const ORTHOGONAL_ANGLE = 10;
+
+interface EdgeLine {
+  start: Point; // First vertex of the edge (of the first edge, once merged)
+  point: Point; // A point on the line
+  dir: Point; // Unit direction
+  axis: 'h' | 'v' | null; // null: left at its own angle
+  length: number;
+}
+
+/**
+ * Straightens the edges of a closed polygon that are within `maxAngle` degrees of horizontal
+ * or vertical, each about its midpoint, then puts every corner where its two edges' lines
+ * cross. Runs of straightened edges along the same axis become one edge.
+ */
+export function orthogonalize(points: Point[], maxAngle: number = ORTHOGONAL_ANGLE): Point[] {
+  if (points.length < 3) return points;
+  const limit = (maxAngle * Math.PI) / 180;
+
+  const lines: EdgeLine[] = points.map((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const angle = Math.abs(Math.atan2(b.y - a.y, b.x - a.x)); // 0..π
+    if (Math.min(angle, Math.PI - angle) <= limit) {
+      return { start: a, point: mid, dir: { x: 1, y: 0 }, axis: 'h', length };
+    }
+    if (Math.abs(angle - Math.PI / 2) <= limit) {
+      return { start: a, point: mid, dir: { x: 0, y: 1 }, axis: 'v', length };
+    }
+    const dir = length === 0 ? { x: 1, y: 0 } : { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+    return { start: a, point: mid, dir, axis: null, length };
+  });
+
+  // Neighbours on the same axis are parallel and have no corner: join them at their
+  // length-weighted average
+  let merged = true;
+  while (merged && lines.length > 3) {
+    merged = false;
+    for (let i = 0; i < lines.length && lines.length > 3; i++) {
+      const j = (i + 1) % lines.length;
+      const a = lines[i];
+      const b = lines[j];
+      if (!a.axis || a.axis !== b.axis) continue;
+      const length = a.length + b.length;
+      const w = length === 0 ? 0.5 : b.length / length;
+      const point = {
+        x: a.point.x + (b.point.x - a.point.x) * w,
+        y: a.point.y + (b.point.y - a.point.y) * w
+      };
+      lines[i] = { ...a, point, length };
+      lines.splice(j, 1);
+      if (j < i) i--; // The wrapped-around first line was removed
+      merged = true;
+    }
+  }
+  if (lines.every(l => l.axis && l.axis === lines[0].axis)) return points;
+
+  const corners = lines.map((line, i) => {
+    const prev = lines[(i - 1 + lines.length) % lines.length];
+    const denom = prev.dir.x * line.dir.y - prev.dir.y * line.dir.x;
+    // Nearly parallel edges left at their own angles keep the original corner
+    if (Math.abs(denom) < 1e-6) return line.start;
+    const t = ((line.point.x - prev.point.x) * line.dir.y - (line.point.y - prev.point.y) * line.dir.x) / denom;
+    return { x: prev.point.x + prev.dir.x * t, y: prev.point.y + prev.dir.y * t };
+  });
+  return corners;
+}
+
+/**
+ * Turns a traced outline (a closed stroke) into a polygon with few vertices. The stroke is
+ * split at the point farthest from its start so both halves simplify as open paths; with
+ * `orthogonal`, edges close to horizontal or vertical are then straightened.
+ */
+export function simplifyClosedPath(points: Point[], tolerance: number, orthogonal: boolean = false): Point[] {
+  if (points.length < 3) return points;
+  const start = points[0];
+  let far = 0;
+  points.forEach((p, i) => {
+    if (Math.hypot(p.x - start.x, p.y - start.y) > Math.hypot(points[far].x - start.x, points[far].y - start.y)) far = i;
+  });
+  const there = simplifyPath(points.slice(0, far + 1), tolerance);
+  const back = simplifyPath([...points.slice(far), start], tolerance);
+  const polygon = removeCollinear([...there.slice(0, -1), ...back.slice(0, -1)], tolerance);
+  return orthogonal ? removeCollinear(orthogonalize(polygon), tolerance) : polygon;
+}
+
+// A vertex inserted into or removed from a polygon, by its index (in the new polygon for an
+// insert, in the old one for a removal)
+export type PolygonEdit = { kind: 'insert'; index: number } | { kind: 'remove'; index: number };
+
+// Position (0-1) of the point on segment a-b nearest to p
+function projectOnEdge(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  return lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+}
+
+/**
+ * Where a point on an edge of `before` lies in `after`, a vertex later or earlier. Later edges
+ * shift by one; a point on a split edge goes to the half it is on, and a point on one of two
+ * merged edges keeps its plan position on the merged edge.
+ */
+export function remapEdgePosition(
+  edgeIndex: number, position: number, before: Point[], after: Point[], edit: PolygonEdit
+): { edgeIndex: number; position: number } {
+  const n = before.length;
+  const a = before[edgeIndex];
+  const b = before[(edgeIndex + 1) % n];
+  const p = { x: a.x + (b.x - a.x) * position, y: a.y + (b.y - a.y) * position };
+  const onEdge = (i: number) => projectOnEdge(p, after[i], after[(i + 1) % after.length]);
+
+  if (edit.kind === 'insert') {
+    const split = (edit.index - 1 + n) % n;
+    if (edgeIndex !== split) {
+      return { edgeIndex: edgeIndex >= edit.index ? edgeIndex + 1 : edgeIndex, position };
+    }
+    // The new vertex ends the first half and starts the second
+    const first = (edit.index - 1 + after.length) % after.length;
+    const second = edit.index;
+    const distance = (i: number) => distanceToSegment(p, after[i], after[(i + 1) % after.length]);
+    const half = distance(first) <= distance(second) ? first : second;
+    return { edgeIndex: half, position: onEdge(half) };
+  }
+
+  const merged = edit.index === 0 ? n - 2 : edit.index - 1;
+  if (edgeIndex === edit.index || edgeIndex === (edit.index - 1 + n) % n) {
+    return { edgeIndex: merged, position: onEdge(merged) };
+  }
+  return { edgeIndex: edgeIndex > edit.index ? edgeIndex - 1 : edgeIndex, position };
+}
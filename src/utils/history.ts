@@ -0,0 +1,79 @@
+// Undo / redo of project edits. Each command records the values it replaced and the values it
+// set, for only the parts of the state it touched, so undoing one edit never reverts another.
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string; // Shown in the history list
+  before: Partial<T>;
+  after: Partial<T>;
+  time: number; // ms since epoch of the last change merged into the entry
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[]; // Oldest first; the last one is the current state
+  future: HistoryEntry<T>[]; // Undone commands, the next one to redo first
+}
+
+// Oldest commands are dropped beyond this
+export const MAX_HISTORY = 100;
+
+// Edits with the same label this close together (a drag, typing in a field) form one command
+const MERGE_WINDOW = 1000;
+
+let nextId = 1;
+
+export const createHistory = <T>(): HistoryState<T> => ({ past: [], future: [] });
+
+const sameKeys = (a: object, b: object) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => k in b);
+};
+
+/**
+ * Adds a command that changed `before` into `after`. Anything undone is no longer redoable;
+ * a quick repeat of the last command is merged into it.
+ */
+export function recordCommand<T>(
+  history: HistoryState<T>, label: string, before: Partial<T>, after: Partial<T>, now = Date.now()
+): HistoryState<T> {
+  const last = history.past[history.past.length - 1];
+  if (
+    last && history.future.length === 0 && last.label === label &&
+    now - last.time < MERGE_WINDOW && sameKeys(last.after, after)
+  ) {
+    return { past: [...history.past.slice(0, -1), { ...last, after, time: now }], future: [] };
+  }
+  const entry = { id: nextId++, label, before, after, time: now };
+  return { past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+}
+
+/**
+ * Moves `steps` commands back (negative) or forward (positive) and returns the state values
+ * to apply, or null when there is nothing that far.
+ */
+export function travel<T>(history: HistoryState<T>, steps: number): { history: HistoryState<T>; patch: Partial<T> } | null {
+  if (steps === 0) return null;
+  if (steps < 0) {
+    if (history.past.length < -steps) return null;
+    const undone = history.past.slice(steps);
+    // Newest first, so the oldest command's values win
+    const patch = undone.reduceRight((acc, entry) => ({ ...acc, ...entry.before }), {} as Partial<T>);
+    return {
+      history: { past: history.past.slice(0, steps), future: [...undone, ...history.future] },
+      patch
+    };
+  }
+  if (history.future.length < steps) return null;
+  const redone = history.future.slice(0, steps);
+  const patch = redone.reduce((acc, entry) => ({ ...acc, ...entry.after }), {} as Partial<T>);
+  return {
+    history: { past: [...history.past, ...redone], future: history.future.slice(steps) },
+    patch
+  };
+}
+
+// Drops the commands that touched `key`, e.g. edits of a layout that has been replaced
+export function dropCommands<T>(history: HistoryState<T>, key: keyof T): HistoryState<T> {
+  const keep = (entry: HistoryEntry<T>) => !(key in entry.after);
+  return { past: history.past.filter(keep), future: history.future.filter(keep) };
+}
@@ -1,5 +1,15 @@
 import { Point } from '../services/geminiService';
-import { FurnitureSet, CHAIR_DIMENSIONS } from '../constants';
+import { isRectInsidePolygon, doesRectOverlapPolygon, isPointInPolygon, rotatePoint } from './geometry';
+import { createSpatialIndex, SpatialIndex } from './spatialIndex';
+import { getFurnitureGeometry, getChairModel, getShape, supportsArrangement } from './furnitureShape';
+import { isFurnitureSetValid } from './furnitureCatalog';
+import {
+  ExitOpening, buildWalkGrid, findExitCells, distanceTransform, corridorMask, findRoutes, tracePath,
+  getCellAt, getCellCenter
+} from './walkGrid';
+import {
+  FurnitureSet, WallFurniture, LayoutArrangement, LayoutPattern, PackingStrategy, HEADCOUNT_SEARCH, withTax
+} from '../constants';
 
 export interface PlacedItem {
   id: string;
@@ -7,62 +17,397 @@ export interface PlacedItem {
   y: number;
   rotation: number;
   type: FurnitureSet;
+  // 'island' items are two tables back to back with chairs on both outer sides
+  arrangement?: LayoutArrangement;
+  zoneId?: string; // Set when the item was placed for a LayoutZone
+  // Wheelchair workstation: a table without chair and a turning circle in front of it
+  accessible?: boolean;
 }
 
-// Helper to check if a point is inside a polygon (Ray casting algorithm)
-function isPointInPolygon(point: Point, vs: Point[]) {
-  // ray-casting algorithm based on
-  // https://github.com/substack/point-in-polygon
-  var x = point.x, y = point.y;
-  
-  var inside = false;
-  for (var i = 0, j = vs.length - 1; i < vs.length; j = i++) {
-      var xi = vs[i].x, yi = vs[i].y;
-      var xj = vs[j].x, yj = vs[j].y;
-      
-      var intersect = ((yi > y) != (yj > y))
-          && (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
-      if (intersect) inside = !inside;
-  }
-  
-  return inside;
-}
-
-// Helper to check if a rectangle is fully inside a polygon AND outside all holes
-function isRectValid(x: number, y: number, w: number, h: number, polygon: Point[], holes: Point[][]) {
-  const corners = [
-    { x: x, y: y },
-    { x: x + w, y: y },
-    { x: x + w, y: y + h },
-    { x: x, y: y + h },
-    // Also check center point to catch small holes inside large rects
-    { x: x + w/2, y: y + h/2 }
-  ];
+// 'auto' tries both row directions (and a mix of them) and keeps whichever seats the most people
+export type LayoutOrientation = 'auto' | 'horizontal' | 'vertical';
+
+export interface LayoutOptions {
+  orientation?: LayoutOrientation;
+  arrangement?: LayoutArrangement;
+  packing?: PackingStrategy;
+  sideGap?: number; // mm between tables side by side (default 50)
+  // mm kept free along every wall. When omitted, rows simply start one aisle gap
+  // from the top-left of the room (the original behaviour).
+  wallClearance?: number;
+  // Used by the 'classroom' arrangement: rows run parallel to this edge and face it
+  front?: FrontWall;
+  accessibility?: AccessibilityOptions;
+  wallFurniture?: WallFurnitureOptions;
+}
+
+// Wheelchair workstations to reserve before the regular rows are filled
+export interface AccessibilityOptions {
+  count: number;
+  routeWidth: number; // mm of clear route kept from each workstation to an exit
+  exits: ExitOpening[];
+}
+
+// Storage, lockers and printers to place against the walls once the seats are laid out
+export interface WallFurnitureOptions {
+  items: WallFurniture[];
+  passage: number; // mm kept free of seating in front of each unit
+  exits: ExitOpening[];
+}
+
+// The wall everyone faces in a classroom layout (e.g. screen or whiteboard)
+export interface FrontWall {
+  start: Point;
+  end: Point;
+  clearance: number; // mm kept free in front of the wall
+}
+
+// Spacing of one layout preset, in mm
+export interface LayoutSpacing {
+  aisleGap: number;
+  sideGap?: number;
+  wallClearance?: number;
+}
+
+export interface LayoutStats {
+  seats: number;
+  cost: number; // JPY, before tax
+}
+
+// Result of an optimised run next to the greedy scan on the same room
+export interface PackingReport {
+  strategy: PackingStrategy;
+  optimized: LayoutStats;
+  baseline: LayoutStats;
+  // The same run without stock limits, set when a furniture type ran out
+  unlimited?: LayoutStats;
+}
 
+// A furniture type whose stock ran out in a layout
+export interface StockLimitHit {
+  type: FurnitureSet;
+  used: number; // Tables placed
+  limit: number;
+}
+
+// A named area inside the room with its own preset, furniture and row direction
+export interface LayoutZone {
+  id: string;
+  name: string;
+  polygon: Point[];
+  pattern: LayoutPattern; // Preset id
+  furnitureTypeIds: string[]; // Enabled furniture for this zone
+  orientation: LayoutOrientation;
+  color: string;
+}
+
+// Per-zone totals for the result screen and estimate
+export interface ZoneSummary {
+  zoneId: string;
+  name: string;
+  seats: number;
+  cost: number;
+  counts: Record<string, number>; // Tables per furniture type name
+}
+
+// Axis-aligned rectangle in image pixels
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// A footprint found by the row scan, before it is turned into a PlacedItem
+interface Footprint extends Rect {
+  type: FurnitureSet;
+}
+
+// Everything the row scan needs, shared by every pass of one generateLayout call
+interface ScanParams {
+  polygon: Point[];
+  holes: Point[][];
+  scale: number;
+  furnitureTypes: FurnitureSet[];
+  aisleGap: number;
+  sideGap: number;
+  wallClearance?: number;
+  arrangement: LayoutArrangement;
+  packing: PackingStrategy;
+  // Target cost per seat for 'costPerSeat' packing (refined between passes)
+  costPerSeat: number;
+  // Set while scanning a transposed room, where items appear flipped top to bottom
+  mirrored?: boolean;
+  // Tables left per type id when the scan starts; types without a stock limit are absent
+  stock?: Record<string, number>;
+}
+
+// Helper to check if a rectangle is fully inside a polygon AND outside all holes.
+// Exact: a thin pillar or wall notch crossing a desk edge between its corners is caught too.
+// With a spatial index only the holes near the rectangle are tested.
+// `wallMargin` (px) must stay free between the rectangle and the room outline.
+function isRectValid(
+  x: number, y: number, w: number, h: number,
+  polygon: Point[], holes: Point[][], holeIndex?: SpatialIndex, wallMargin = 0
+) {
   // Must be inside the main polygon
-  const insideMain = corners.every(p => isPointInPolygon(p, polygon));
-  if (!insideMain) return false;
-
-  // Must be outside ALL holes
-  // If any corner is inside any hole, it's invalid
-  for (const hole of holes) {
-    if (corners.some(p => isPointInPolygon(p, hole))) {
-      return false;
-    }
-  }
+  if (!isRectInsidePolygon(x - wallMargin, y - wallMargin, w + wallMargin * 2, h + wallMargin * 2, polygon)) return false;
 
-  return true;
+  // Must not overlap ANY hole
+  const nearby = holeIndex ? holeIndex.query(x, y, w, h).map(i => holes[i]) : holes;
+  return !nearby.some(hole => doesRectOverlapPolygon(x, y, w, h, hole));
 }
 
-export function generateLayout(
-  polygon: Point[],
-  holes: Point[][],
-  scale: number, // pixels per mm
-  pattern: 'cramped' | 'standard' | 'spacious',
-  furnitureTypes: FurnitureSet[],
-  aisleGap: number
-): PlacedItem[] {
-  const items: PlacedItem[] = [];
+// Collision parts of a type where the row scan puts it, relative to the footprint's top-left
+function getScanFootprint(type: FurnitureSet, params: ScanParams) {
+  const { w, h, parts } = getScaledGeometry(type, params.scale, params.arrangement);
+  return { w, h, parts: params.mirrored ? parts.map(p => ({ ...p, y: h - p.y - p.h })) : parts };
+}
+
+// isRectValid for every part of a footprint placed at (x, y)
+function isFootprintValid(
+  x: number, y: number, parts: Rect[],
+  polygon: Point[], holes: Point[][], holeIndex?: SpatialIndex, wallMargin = 0
+) {
+  return parts.every(p => isRectValid(x + p.x, y + p.y, p.w, p.h, polygon, holes, holeIndex, wallMargin));
+}
+
+// Grid cell size for the hole index, in mm
+const HOLE_INDEX_CELL = 2000;
+
+// Footprint of a type in pixels, before rotation (see getFurnitureGeometry)
+function getScaledGeometry(type: FurnitureSet, scale: number, arrangement: LayoutArrangement = 'single', accessible = false) {
+  const g = getFurnitureGeometry(type, arrangement, accessible);
+  const px = (r: Rect): Rect => ({ x: r.x * scale, y: r.y * scale, w: r.w * scale, h: r.h * scale });
+  return { w: g.w * scale, h: g.h * scale, parts: g.parts.map(px) };
+}
+
+// Size of a furniture set including its chair space, in pixels, before rotation
+function getFootprintSize(type: FurnitureSet, scale: number, arrangement: LayoutArrangement = 'single', accessible = false) {
+  const { w, h } = getScaledGeometry(type, scale, arrangement, accessible);
+  return { w, h };
+}
+
+const getItemGeometry = (item: PlacedItem, scale: number) =>
+  getScaledGeometry(item.type, scale, item.arrangement, item.accessible);
+
+// Maps a point of an item's own frame onto the plan
+function fromItemFrame(p: Point, item: PlacedItem): Point {
+  const r = rotatePoint(p, (item.rotation * Math.PI) / 180);
+  return { x: item.x + r.x, y: item.y + r.y };
+}
+
+/**
+ * Returns the four corners of an item's bounding footprint (table + chairs) on the plan.
+ * Items are rotated around their origin, so a 90° item extends to the left of item.x.
+ */
+export function getItemCorners(item: PlacedItem, scale: number): Point[] {
+  const { w, h } = getItemGeometry(item, scale);
+  return rectToPolygon({ x: 0, y: 0, w, h }).map(p => fromItemFrame(p, item));
+}
+
+// The footprint parts of an item on the plan; tighter than its corners for shaped furniture
+export function getItemOutlines(item: PlacedItem, scale: number): Point[][] {
+  return getItemGeometry(item, scale).parts.map(part => rectToPolygon(part).map(p => fromItemFrame(p, item)));
+}
+
+// Axis-aligned bounding box of an item's footprint
+export function getItemBounds(item: PlacedItem, scale: number): Rect {
+  const corners = getItemCorners(item, scale);
+  const minX = Math.min(...corners.map(p => p.x));
+  const minY = Math.min(...corners.map(p => p.y));
+  return {
+    x: minX,
+    y: minY,
+    w: Math.max(...corners.map(p => p.x)) - minX,
+    h: Math.max(...corners.map(p => p.y)) - minY
+  };
+}
+
+// Copy of an item turned by `degrees` (clockwise) around the centre of its footprint
+export function rotateItem(item: PlacedItem, scale: number, degrees = 90): PlacedItem {
+  const { w, h } = getItemGeometry(item, scale);
+  const center = fromItemFrame({ x: w / 2, y: h / 2 }, item);
+  const rotation = (((item.rotation + degrees) % 360) + 360) % 360;
+  const offset = rotatePoint({ x: w / 2, y: h / 2 }, (rotation * Math.PI) / 180);
+  return { ...item, rotation, x: center.x - offset.x, y: center.y - offset.y };
+}
+
+// A new unrotated item of `type` whose footprint is centred on `center`
+export function createItemAt(
+  type: FurnitureSet, center: Point, scale: number, arrangement: LayoutArrangement = 'single'
+): PlacedItem {
+  const { w, h } = getFootprintSize(type, scale, arrangement);
+  return { id: crypto.randomUUID(), x: center.x - w / 2, y: center.y - h / 2, rotation: 0, type, arrangement };
+}
+
+// A chair on the plan and the unit direction its occupant stands up into (away from the table)
+export interface SeatPosition {
+  center: Point;
+  outward: Point;
+}
+
+// Seat positions of an item on the plan, matching what the canvas draws
+export function getSeatPositions(item: PlacedItem, scale: number): SeatPosition[] {
+  const angle = (item.rotation * Math.PI) / 180;
+  return getFurnitureGeometry(item.type, item.arrangement, item.accessible).seats.map(seat => ({
+    center: fromItemFrame({ x: seat.center.x * scale, y: seat.center.y * scale }, item),
+    outward: rotatePoint(seat.outward, angle)
+  }));
+}
+
+// Maps plan points into an item's own frame, where its footprint is the rectangle (0, 0, w, h)
+function toItemFrame(points: Point[], item: PlacedItem): Point[] {
+  const angle = (-item.rotation * Math.PI) / 180;
+  return points.map(p => rotatePoint({ x: p.x - item.x, y: p.y - item.y }, angle));
+}
+
+// Exact containment / overlap tests for an item at any rotation, part by part
+function isItemInsidePolygon(item: PlacedItem, poly: Point[], scale: number): boolean {
+  const local = toItemFrame(poly, item);
+  return getItemGeometry(item, scale).parts.every(r => isRectInsidePolygon(r.x, r.y, r.w, r.h, local));
+}
+
+function doesItemOverlapPolygon(item: PlacedItem, poly: Point[], scale: number): boolean {
+  const local = toItemFrame(poly, item);
+  return getItemGeometry(item, scale).parts.some(r => doesRectOverlapPolygon(r.x, r.y, r.w, r.h, local));
+}
+
+// Number of furniture sets (tables) an item stands for; an island uses two
+export function getTableCount(item: Pick<PlacedItem, 'arrangement'>): number {
+  return item.arrangement === 'island' ? 2 : 1;
+}
+
+export function getSeatCount(item: PlacedItem): number {
+  if (item.accessible) return 1;
+  return item.type.chairCount * getTableCount(item);
+}
+
+export function countSeats(items: PlacedItem[]): number {
+  return items.reduce((sum, item) => sum + getSeatCount(item), 0);
+}
+
+// Tables of each type id used by `items`
+function countTables(items: PlacedItem[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  items.forEach(item => {
+    counts[item.type.id] = (counts[item.type.id] ?? 0) + getTableCount(item);
+  });
+  return counts;
+}
+
+// Stock of the types with a limit, less the tables `placed` already uses
+function getStock(types: FurnitureSet[], placed: PlacedItem[] = []): Record<string, number> | undefined {
+  const capped = types.filter(t => t.maxQuantity !== undefined);
+  if (capped.length === 0) return undefined;
+  const used = countTables(placed);
+  return Object.fromEntries(capped.map(t => [t.id, t.maxQuantity! - (used[t.id] ?? 0)]));
+}
+
+// Same as getStock, starting from stock that is already known
+function deductStock(stock: Record<string, number> | undefined, placed: PlacedItem[]) {
+  if (!stock) return undefined;
+  const used = countTables(placed);
+  return Object.fromEntries(Object.entries(stock).map(([id, left]) => [id, left - (used[id] ?? 0)]));
+}
+
+/**
+ * Types with a stock limit that a layout used up, i.e. where another item of the layout's
+ * arrangement would not have been in stock. Ordering more of these may add seats.
+ */
+export function getStockLimitHits(
+  items: PlacedItem[], furnitureTypes: FurnitureSet[], arrangement: LayoutArrangement = 'single'
+): StockLimitHit[] {
+  const used = countTables(items);
+  return furnitureTypes
+    .filter(t => t.enabled !== false && t.maxQuantity !== undefined)
+    .map(type => ({ type, used: used[type.id] ?? 0, limit: type.maxQuantity! }))
+    .filter(hit => hit.limit - hit.used < getTableCount({ arrangement }));
+}
+
+// Price of one table with its chairs; booth benches are part of the booth
+export function getSetCost(type: FurnitureSet): number {
+  const chairs = getFurnitureGeometry(type).chairs ? type.chairCount : 0;
+  return type.unitPrice + getChairModel(type).unitPrice * chairs;
+}
+
+// Chairs an item comes with; a wheelchair workstation or a booth has none
+export function getChairCount(item: PlacedItem): number {
+  return getFurnitureGeometry(item.type, item.arrangement, item.accessible).chairs ? getSeatCount(item) : 0;
+}
+
+export function getItemCost(item: PlacedItem): number {
+  return item.type.unitPrice * getTableCount(item) + getChairModel(item.type).unitPrice * getChairCount(item);
+}
+
+export function summarizeLayout(items: PlacedItem[]): LayoutStats {
+  return {
+    seats: countSeats(items),
+    cost: items.reduce((sum, item) => sum + getItemCost(item), 0)
+  };
+}
+
+// A line of the estimate: tables of one furniture type, or chairs of one model
+export interface EstimateLine {
+  kind: 'table' | 'chair';
+  name: string;
+  sku?: string;
+  unitPrice: number;
+  count: number;
+  subtotal: number;
+}
+
+// Tables and chairs of a layout as separate estimate lines, tables first
+export function getEstimateLines(items: PlacedItem[]): EstimateLine[] {
+  const tables = new Map<string, EstimateLine>();
+  const chairs = new Map<string, EstimateLine>();
+  const add = (lines: Map<string, EstimateLine>, key: string, line: Omit<EstimateLine, 'count' | 'subtotal'>, count: number) => {
+    if (count === 0) return;
+    const current = lines.get(key) ?? { ...line, count: 0, subtotal: 0 };
+    current.count += count;
+    current.subtotal += line.unitPrice * count;
+    lines.set(key, current);
+  };
+
+  items.forEach(item => {
+    const { type } = item;
+    const chair = getChairModel(type);
+    // Keyed by name and price as well, since results may come from an older catalog
+    add(tables, `${type.id}:${type.name}:${type.unitPrice}`,
+      { kind: 'table', name: type.name, sku: type.sku, unitPrice: type.unitPrice }, getTableCount(item));
+    add(chairs, `${chair.id}:${chair.name}:${chair.unitPrice}`,
+      { kind: 'chair', name: chair.name, sku: chair.sku, unitPrice: chair.unitPrice }, getChairCount(item));
+  });
+  return [...tables.values(), ...chairs.values()];
+}
+
+// Returns true when layout `a` is better than `b` for the given strategy
+function isBetterLayout(a: LayoutStats, b: LayoutStats, packing: PackingStrategy): boolean {
+  if (packing === 'costPerSeat' && a.seats > 0 && b.seats > 0) {
+    const ra = a.cost / a.seats;
+    const rb = b.cost / b.seats;
+    if (Math.abs(ra - rb) > 1e-6) return ra < rb;
+    return a.seats > b.seats;
+  }
+  if (a.seats !== b.seats) return a.seats > b.seats;
+  // Greedy keeps its original tie-break (first candidate wins)
+  return packing !== 'greedy' && a.cost < b.cost;
+}
+
+const rectToPolygon = (r: Rect): Point[] => [
+  { x: r.x, y: r.y },
+  { x: r.x + r.w, y: r.y },
+  { x: r.x + r.w, y: r.y + r.h },
+  { x: r.x, y: r.y + r.h }
+];
+
+// Swaps X and Y so that vertical rows can be scanned with the horizontal row scanner
+const transpose = (points: Point[]): Point[] => points.map(p => ({ x: p.y, y: p.x }));
+
+// Greedy row scan: fills horizontal rows from top to bottom, left to right
+function scanRows(params: ScanParams): Footprint[] {
+  const { polygon, holes, scale, furnitureTypes, aisleGap, sideGap, wallClearance, arrangement, packing } = params;
+  const footprints: Footprint[] = [];
   
   // Find bounding box of polygon
   const minX = Math.min(...polygon.map(p => p.x));
@@ -72,11 +417,26 @@ export function generateLayout(
 
   // Convert dimensions to pixels
   const pxAisleGap = aisleGap * scale;
+  const pxSideGap = sideGap * scale;
+  const pxWallMargin = (wallClearance ?? 0) * scale;
+  const pxStart = (wallClearance ?? aisleGap) * scale;
+  const holeIndex = createSpatialIndex(holes, HOLE_INDEX_CELL * scale);
+  // Counted down as tables are placed
+  const stock = { ...params.stock };
+  const tables = getTableCount({ arrangement });
   
-  let currentY = minY + pxAisleGap;
+  let currentY = minY + pxStart;
 
   while (currentY < maxY) {
-    let currentX = minX + pxAisleGap;
+    if (packing !== 'greedy') {
+      const row = packRowInStock(params, holeIndex, currentY, minX + pxStart, maxX, stock);
+      footprints.push(...row);
+      const rowHeight = Math.max(0, ...row.map(fp => fp.h));
+      currentY += rowHeight > 0 ? rowHeight + pxAisleGap : 100 * scale;
+      continue;
+    }
+
+    let currentX = minX + pxStart;
     let rowHeight = 0;
     
     // Try to fit items in this row
@@ -86,27 +446,19 @@ export function generateLayout(
       // Try to fit the enabled furniture types
       // We iterate through types to see if any fit at current position
       for (const fType of furnitureTypes) {
-        // Skip if disabled (though filtering should happen before calling this)
+        // Skip if disabled (though filtering should happen before calling this) or out of stock
         if (fType.enabled === false) continue;
+        if (fType.id in stock && stock[fType.id] < tables) continue;
 
-        const w = fType.tableWidth * scale;
-        const h = fType.tableDepth * scale;
-        const chairD = CHAIR_DIMENSIONS.depth * scale;
-        
         // Total footprint height (Table + Chair space)
-        const totalH = h + chairD; 
+        const { w, h: totalH, parts } = getScanFootprint(fType, params);
         
         // Check if this spot is valid (inside polygon, outside holes)
-        if (isRectValid(currentX, currentY, w, totalH, polygon, holes)) {
-          items.push({
-            id: crypto.randomUUID(),
-            x: currentX,
-            y: currentY,
-            rotation: 0,
-            type: fType
-          });
+        if (isFootprintValid(currentX, currentY, parts, polygon, holes, holeIndex, pxWallMargin)) {
+          footprints.push({ x: currentX, y: currentY, w, h: totalH, type: fType });
+          if (fType.id in stock) stock[fType.id] -= tables;
           
-          currentX += w + (50 * scale); // 50mm gap between tables side-by-side
+          currentX += w + pxSideGap; // Gap between tables side-by-side
           rowHeight = Math.max(rowHeight, totalH);
           placed = true;
           break; // Placed one item, move X forward
@@ -127,5 +479,891 @@ export function generateLayout(
     }
   }
 
-  return items;
+  return footprints;
+}
+
+/**
+ * Optimal fill of a single row at `y` (dynamic programming over 50mm X positions).
+ * Every type is tested at every position, then the best sequence of placements is
+ * picked from right to left, so a 1300mm leftover gets a 1200 desk instead of staying empty.
+ */
+function packRow(params: ScanParams, holeIndex: SpatialIndex, y: number, startX: number, maxX: number): Footprint[] {
+  const { polygon, holes, scale, furnitureTypes, sideGap, wallClearance, arrangement, packing, costPerSeat } = params;
+  const step = 50 * scale;
+  const gap = sideGap * scale; // Gap between tables side-by-side
+  const wallMargin = (wallClearance ?? 0) * scale;
+  const tables = getTableCount({ arrangement });
+  const positions = Math.max(0, Math.ceil((maxX - startX) / step));
+
+  const candidates = furnitureTypes
+    .filter(t => t.enabled !== false)
+    .map(type => {
+      const { w, h, parts } = getScanFootprint(type, params);
+      const seats = type.chairCount * tables;
+      const cost = getSetCost(type) * tables;
+      return {
+        type, w, h, parts, seats, cost,
+        advance: Math.ceil((w + gap) / step - 1e-9),
+        // [primary, secondary] score, compared lexicographically
+        score: packing === 'costPerSeat'
+          ? [costPerSeat * seats - cost, seats]
+          : [seats, -cost]
+      };
+    });
+
+  // best[k]: best score for positions k..end, and the type placed at k (or null to skip)
+  const best: { score: number[]; pick: number | null }[] = new Array(positions + 1);
+  best[positions] = { score: [0, 0], pick: null };
+  const better = (a: number[], b: number[]) =>
+    Math.abs(a[0] - b[0]) > 1e-6 ? a[0] > b[0] : a[1] > b[1] + 1e-6;
+
+  for (let k = positions - 1; k >= 0; k--) {
+    best[k] = { score: best[k + 1].score, pick: null };
+    const x = startX + k * step;
+    candidates.forEach((c, ci) => {
+      if (x + c.w > maxX) return;
+      const rest = best[Math.min(positions, k + c.advance)].score;
+      const score = [c.score[0] + rest[0], c.score[1] + rest[1]];
+      if (better(score, best[k].score) && isFootprintValid(x, y, c.parts, polygon, holes, holeIndex, wallMargin)) {
+        best[k] = { score, pick: ci };
+      }
+    });
+  }
+
+  const row: Footprint[] = [];
+  for (let k = 0; k < positions;) {
+    const pick = best[k].pick;
+    if (pick === null) {
+      k++;
+      continue;
+    }
+    const c = candidates[pick];
+    row.push({ x: startX + k * step, y, w: c.w, h: c.h, type: c.type });
+    k += c.advance;
+  }
+  return row;
+}
+
+// packRow that respects `stock` (counted down in place): where the packed row would use a type
+// beyond its stock, the rest of the row is packed again without that type
+function packRowInStock(
+  params: ScanParams, holeIndex: SpatialIndex, y: number, startX: number, maxX: number, stock: Record<string, number>
+): Footprint[] {
+  const tables = getTableCount(params);
+  const row: Footprint[] = [];
+  let x = startX;
+
+  for (;;) {
+    const types = params.furnitureTypes.filter(t => !(t.id in stock) || stock[t.id] >= tables);
+    const packed = packRow({ ...params, furnitureTypes: types }, holeIndex, y, x, maxX);
+    let out = -1;
+    for (let i = 0; i < packed.length; i++) {
+      const { id } = packed[i].type;
+      if (!(id in stock)) continue;
+      if (stock[id] < tables) {
+        out = i;
+        break;
+      }
+      stock[id] -= tables;
+    }
+    if (out === -1) return [...row, ...packed];
+    row.push(...packed.slice(0, out));
+    x = packed[out].x;
+  }
+}
+
+// Runs the row scan in one direction and converts the result to PlacedItems
+function placeRows(params: ScanParams, rotation: 0 | 90): PlacedItem[] {
+  const { arrangement } = params;
+
+  if (rotation === 0) {
+    return scanRows(params).map(fp => ({
+      id: crypto.randomUUID(),
+      x: fp.x,
+      y: fp.y,
+      rotation: 0,
+      type: fp.type,
+      arrangement
+    }));
+  }
+
+  // Vertical rows: scan the transposed room, then map each footprint back.
+  // A 90° item rotates around its origin, so the origin sits on the right edge of its footprint.
+  const footprints = scanRows({
+    ...params,
+    polygon: transpose(params.polygon),
+    holes: params.holes.map(transpose),
+    mirrored: true
+  });
+  return footprints.map(fp => ({
+    id: crypto.randomUUID(),
+    x: fp.y + fp.h,
+    y: fp.x,
+    rotation: 90,
+    type: fp.type,
+    arrangement
+  }));
+}
+
+// Fills the space left over by a first pass with rows in the other direction.
+// Already placed items block the scan, padded by the aisle gap so they stay reachable.
+function fillRemaining(placed: PlacedItem[], params: ScanParams, rotation: 0 | 90): PlacedItem[] {
+  const pad = params.aisleGap * params.scale;
+  const obstacles = placed.map(item => {
+    const b = getItemBounds(item, params.scale);
+    return rectToPolygon({ x: b.x - pad, y: b.y - pad, w: b.w + pad * 2, h: b.h + pad * 2 });
+  });
+  const extra = placeRows({
+    ...params, holes: [...params.holes, ...obstacles], stock: deductStock(params.stock, placed)
+  }, rotation);
+  return [...placed, ...extra];
+}
+
+/**
+ * Classroom rows: the room is rotated so the front wall lies horizontally along the top,
+ * rows are scanned there (chairs end up on the side away from the wall), and every item
+ * is rotated back. Works for walls at any angle, not only axis-aligned ones.
+ */
+function placeFacingFront(params: ScanParams, front: FrontWall): PlacedItem[] {
+  const edgeAngle = Math.atan2(front.end.y - front.start.y, front.end.x - front.start.x);
+  const toLocal = (angle: number) => (pts: Point[]) => pts.map(p => rotatePoint(p, -angle));
+
+  // Pick the direction that puts the room interior below the wall
+  let angle = edgeAngle;
+  let local = toLocal(angle)([front.start, front.end]);
+  const probe = { x: (local[0].x + local[1].x) / 2, y: local[0].y + 1 };
+  if (!isPointInPolygon(probe, toLocal(angle)(params.polygon))) {
+    angle += Math.PI;
+    local = toLocal(angle)([front.start, front.end]);
+  }
+
+  const polygon = toLocal(angle)(params.polygon);
+  const holes = params.holes.map(toLocal(angle));
+
+  // Keep-out strip in front of the wall, from above the room down to the clearance depth
+  const edgeY = local[0].y;
+  const minY = Math.min(...polygon.map(p => p.y));
+  const clearZone = rectToPolygon({
+    x: Math.min(local[0].x, local[1].x),
+    y: Math.min(minY, edgeY) - 1,
+    w: Math.abs(local[1].x - local[0].x),
+    h: edgeY + front.clearance * params.scale - Math.min(minY, edgeY) + 1
+  });
+
+  const degrees = (((angle * 180) / Math.PI) % 360 + 360) % 360;
+  return placeRows({ ...params, polygon, holes: [...holes, clearZone] }, 0).map(item => {
+    const p = rotatePoint(item, angle);
+    return { ...item, x: p.x, y: p.y, rotation: degrees };
+  });
+}
+
+// Tries both directions, and each direction topped up with rows in the other one
+// for the regions it could not use (e.g. an L-shaped room with a tall wing).
+function placeOriented(params: ScanParams, orientation: LayoutOrientation): PlacedItem[] {
+  if (orientation === 'horizontal') {
+    return placeRows(params, 0);
+  }
+  if (orientation === 'vertical') {
+    return placeRows(params, 90);
+  }
+
+  const horizontal = placeRows(params, 0);
+  const vertical = placeRows(params, 90);
+  const candidates = [
+    horizontal,
+    vertical,
+    fillRemaining(horizontal, params, 90),
+    fillRemaining(vertical, params, 0)
+  ];
+
+  // Keep the best arrangement; on ties prefer the earlier (simpler) one
+  return candidates.reduce((best, c) =>
+    isBetterLayout(summarizeLayout(c), summarizeLayout(best), params.packing) ? c : best
+  );
+}
+
+// Wheelchair workstations and the space kept free for them
+interface AccessiblePlan {
+  stations: PlacedItem[];
+  reserved: Point[][]; // Accessible routes and the landing inside every exit
+}
+
+// Spacing (mm) of the candidate positions tried for a wheelchair workstation
+const STATION_SEARCH_STEP = 300;
+
+// Strip `width` px wide along segment a-b, with square caps so consecutive strips join up
+function segmentCorridor(a: Point, b: Point, width: number): Point[] {
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const dx = ((b.x - a.x) / len) * (width / 2);
+  const dy = ((b.y - a.y) / len) * (width / 2);
+  return [
+    { x: a.x - dx + dy, y: a.y - dy - dx },
+    { x: b.x + dx + dy, y: b.y + dy - dx },
+    { x: b.x + dx - dy, y: b.y + dy + dx },
+    { x: a.x - dx - dy, y: a.y - dy + dx }
+  ];
+}
+
+// Area `depth` px deep just inside an exit opening
+function exitLanding(exit: ExitOpening, polygon: Point[], depth: number): Point[] {
+  const len = Math.hypot(exit.end.x - exit.start.x, exit.end.y - exit.start.y) || 1;
+  let nx = -(exit.end.y - exit.start.y) / len;
+  let ny = (exit.end.x - exit.start.x) / len;
+  const mid = { x: (exit.start.x + exit.end.x) / 2, y: (exit.start.y + exit.end.y) / 2 };
+  if (!isPointInPolygon({ x: mid.x + nx, y: mid.y + ny }, polygon)) {
+    nx = -nx;
+    ny = -ny;
+  }
+  return [
+    exit.start,
+    exit.end,
+    { x: exit.end.x + nx * depth, y: exit.end.y + ny * depth },
+    { x: exit.start.x + nx * depth, y: exit.start.y + ny * depth }
+  ];
+}
+
+/**
+ * Places wheelchair workstations one by one, each as close to an exit (by walking distance)
+ * as it fits, and reserves a route of `routeWidth` from its turning circle to that exit.
+ * Routes are found on the walking grid at the full route width, so they only pass where a
+ * wheelchair actually gets through; later workstations may share earlier routes but not block them.
+ */
+function planAccessibleStations(
+  polygon: Point[], holes: Point[][], scale: number, type: FurnitureSet, accessibility: AccessibilityOptions
+): AccessiblePlan {
+  const { count, routeWidth, exits } = accessibility;
+  const routePx = routeWidth * scale;
+  const reserved = exits.map(exit => exitLanding(exit, polygon, routePx));
+  const stations: PlacedItem[] = [];
+  const { w, h } = getFootprintSize(type, scale, 'single', true);
+
+  for (let n = 0; n < count; n++) {
+    const stationCorners = stations.map(s => getItemCorners(s, scale));
+    const grid = buildWalkGrid(polygon, [...holes, ...stationCorners], exits, scale);
+    const clearance = distanceTransform(grid, i => grid.obstacle[i] === 1);
+    const routes = findRoutes(grid, corridorMask(grid, clearance, routeWidth), findExitCells(grid, exits));
+
+    // Candidate centres on a coarse lattice, nearest to an exit first
+    const stride = Math.max(1, Math.round(STATION_SEARCH_STEP / grid.cellMm));
+    const candidates: number[] = [];
+    for (let i = 0; i < routes.dist.length; i++) {
+      const col = i % grid.cols;
+      const row = (i - col) / grid.cols;
+      if (col % stride === 0 && row % stride === 0 && Number.isFinite(routes.dist[i])) candidates.push(i);
+    }
+    candidates.sort((a, b) => routes.dist[a] - routes.dist[b]);
+
+    const blocked = [...holes, ...reserved, ...stationCorners];
+    let placed: { item: PlacedItem; route: Point[][] } | null = null;
+
+    for (const cell of candidates) {
+      const c = getCellCenter(grid, cell);
+      for (const rotation of [0, 90, 180, 270]) {
+        const angle = (rotation * Math.PI) / 180;
+        const o = rotatePoint({ x: w / 2, y: h / 2 }, angle);
+        const item: PlacedItem = {
+          id: crypto.randomUUID(), x: c.x - o.x, y: c.y - o.y, rotation, type, accessible: true
+        };
+        if (!isItemInsidePolygon(item, polygon, scale)) continue;
+        if (blocked.some(poly => doesItemOverlapPolygon(item, poly, scale))) continue;
+
+        // The route starts just outside the open side of the turning circle
+        const side = rotatePoint({ x: w / 2, y: h + routePx / 2 + 1 }, angle);
+        const access = { x: item.x + side.x, y: item.y + side.y };
+        const accessCell = getCellAt(grid, access);
+        if (accessCell === -1 || !Number.isFinite(routes.dist[accessCell])) continue;
+
+        const path = tracePath(grid, routes.parent, accessCell, access);
+        const route = path.slice(1).map((p, k) => segmentCorridor(path[k], p, routePx));
+        if (route.some(strip => doesItemOverlapPolygon(item, strip, scale))) continue;
+
+        placed = { item, route };
+        break;
+      }
+      if (placed) break;
+    }
+
+    // No room for more: return the ones that fit
+    if (!placed) break;
+    stations.push(placed.item);
+    reserved.push(...placed.route);
+  }
+
+  return { stations, reserved };
+}
+
+// The plan only depends on the room and the first enabled type, so the searches that call
+// generateLayout many times per room reuse the last one
+let lastAccessiblePlan: { key: string; plan: AccessiblePlan } | null = null;
+
+function getAccessiblePlan(
+  polygon: Point[], holes: Point[][], scale: number, furnitureTypes: FurnitureSet[], accessibility: AccessibilityOptions
+): AccessiblePlan {
+  // A workstation needs a straight table edge, so rectangular tables are preferred
+  const type = furnitureTypes.find(t => getShape(t) === 'rect') ?? furnitureTypes[0];
+  if (!type || accessibility.count <= 0 || accessibility.exits.length === 0) return { stations: [], reserved: [] };
+
+  const key = JSON.stringify([polygon, holes, scale, type.id, type.tableWidth, type.tableDepth, accessibility]);
+  if (lastAccessiblePlan?.key !== key) {
+    lastAccessiblePlan = { key, plan: planAccessibleStations(polygon, holes, scale, type, accessibility) };
+  }
+  return lastAccessiblePlan.plan;
+}
+
+// Spacing (mm) of the positions tried along each wall
+const WALL_SEARCH_STEP = 50;
+
+// Units a layout needs of one wall furniture type
+export function getWallFurnitureQuantity(item: WallFurniture, seats: number): number {
+  if (item.enabled === false) return 0;
+  const { quantity } = item;
+  if (quantity.mode === 'fixed') return Math.max(0, Math.floor(quantity.count));
+  return seats > 0 ? Math.ceil(seats / Math.max(1, quantity.seats)) : 0;
+}
+
+/**
+ * Places the wall furniture a seating layout needs along the room outline, back to the wall.
+ * The units sit in the strip kept free by the wall clearance: `passage` in front of each one
+ * must stay clear of seating, holes and other units, so they narrow the walkway along the wall
+ * without blocking it. Units of a type are placed side by side; those that find no spot are left out.
+ */
+function placeWallFurniture(
+  seating: PlacedItem[], polygon: Point[], blocked: Point[][], scale: number, options: WallFurnitureOptions
+): PlacedItem[] {
+  const seats = countSeats(seating);
+  const step = WALL_SEARCH_STEP * scale;
+  const seatingBounds = seating.map(item => ({ item, bounds: getItemBounds(item, scale) }));
+  const placed: { item: PlacedItem; probe: PlacedItem }[] = [];
+
+  // Walls run so that an item's own y axis (away from its back) points into the room
+  const walls = polygon.map((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    const len = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+    const inward = isPointInPolygon({ x: mid.x - (q.y - p.y) / len, y: mid.y + (q.x - p.x) / len }, polygon);
+    const [a, b] = inward ? [p, q] : [q, p];
+    return { a, len, ux: (b.x - a.x) / len, uy: (b.y - a.y) / len };
+  });
+
+  const overlapsSeating = (probe: PlacedItem) => {
+    const b = getItemBounds(probe, scale);
+    return seatingBounds.some(({ item, bounds: o }) =>
+      b.x < o.x + o.w && o.x < b.x + b.w && b.y < o.y + o.h && o.y < b.y + b.h
+      && getItemOutlines(item, scale).some(outline => doesItemOverlapPolygon(probe, outline, scale))
+    );
+  };
+
+  options.items.forEach(type => {
+    let remaining = getWallFurnitureQuantity(type, seats);
+    const w = type.tableWidth * scale;
+    // The unit plus the passage in front of it
+    const probeType: FurnitureSet = { ...type, tableDepth: type.tableDepth + options.passage };
+
+    for (const wall of walls) {
+      const rotation = (Math.atan2(wall.uy, wall.ux) * 180) / Math.PI;
+      for (let t = 0; remaining > 0 && t + w <= wall.len; t += step) {
+        const item: PlacedItem = {
+          id: crypto.randomUUID(), x: wall.a.x + wall.ux * t, y: wall.a.y + wall.uy * t, rotation, type
+        };
+        const probe: PlacedItem = { ...item, type: probeType };
+        if (!isItemInsidePolygon(probe, polygon, scale)) continue;
+        if (blocked.some(poly => doesItemOverlapPolygon(probe, poly, scale))) continue;
+        if (placed.some(p =>
+          doesItemOverlapPolygon(item, getItemCorners(p.probe, scale), scale)
+          || doesItemOverlapPolygon(probe, getItemCorners(p.item, scale), scale)
+        )) continue;
+        if (overlapsSeating(probe)) continue;
+
+        placed.push({ item, probe });
+        remaining--;
+        // Next unit of the same type right next to this one
+        t += w - step;
+      }
+      if (remaining === 0) break;
+    }
+  });
+
+  return placed.map(p => p.item);
+}
+
+/**
+ * Adds the wall furniture for `seating`, keeping clear of holes, the landing inside every exit
+ * and the routes reserved for wheelchair workstations.
+ */
+// Enabled, valid types that can be set out in the arrangement, e.g. round tables cannot stand
+// back to back in an island
+function getSeatingTypes(furnitureTypes: FurnitureSet[], arrangement: LayoutArrangement = 'single'): FurnitureSet[] {
+  return furnitureTypes.filter(t =>
+    t.enabled !== false && isFurnitureSetValid(t, getChairModel(t)) && supportsArrangement(t, arrangement)
+  );
+}
+
+function addWallFurniture(
+  seating: PlacedItem[], polygon: Point[], holes: Point[][], scale: number,
+  furnitureTypes: FurnitureSet[], options: LayoutOptions
+): PlacedItem[] {
+  const { wallFurniture, accessibility } = options;
+  if (!wallFurniture || wallFurniture.items.length === 0) return seating;
+  const { reserved } = accessibility
+    ? getAccessiblePlan(polygon, holes, scale, getSeatingTypes(furnitureTypes, options.arrangement), accessibility)
+    : { reserved: [] };
+  const landings = wallFurniture.exits.map(exit => exitLanding(exit, polygon, wallFurniture.passage * scale));
+  return [...seating, ...placeWallFurniture(seating, polygon, [...holes, ...reserved, ...landings], scale, wallFurniture)];
+}
+
+export function generateLayout(
+  polygon: Point[],
+  holes: Point[][],
+  scale: number, // pixels per mm
+  pattern: LayoutPattern,
+  furnitureTypes: FurnitureSet[],
+  aisleGap: number,
+  options: LayoutOptions = {}
+): PlacedItem[] {
+  const { orientation = 'auto', arrangement = 'single', packing = 'greedy', sideGap = 50, wallClearance, front, accessibility } = options;
+  const types = getSeatingTypes(furnitureTypes, arrangement);
+
+  // Wheelchair workstations go first; the rows then treat them and their routes like holes
+  const { stations, reserved } = accessibility
+    ? getAccessiblePlan(polygon, holes, scale, types, accessibility)
+    : { stations: [], reserved: [] };
+  const params: ScanParams = {
+    polygon,
+    holes: [...holes, ...reserved, ...stations.map(s => getItemCorners(s, scale))],
+    scale, furnitureTypes: types, aisleGap, sideGap, wallClearance, arrangement, packing, costPerSeat: 0,
+    stock: getStock(types, stations)
+  };
+  const place = (p: ScanParams) => [
+    ...stations,
+    ...(arrangement === 'classroom' && front ? placeFacingFront(p, front) : placeOriented(p, orientation))
+  ];
+
+  if (packing !== 'costPerSeat') {
+    return addWallFurniture(place(params), polygon, holes, scale, furnitureTypes, options);
+  }
+
+  // Lowest cost per seat is a ratio, which a per-row optimiser cannot score directly.
+  // Start from the max-seats layout's ratio and repeatedly re-pack, rewarding only seats
+  // cheaper than the current ratio, until the ratio stops improving (Dinkelbach's method).
+  let best = place({ ...params, packing: 'seats' });
+  for (let i = 0; i < 10; i++) {
+    const stats = summarizeLayout(best);
+    if (stats.seats === 0) break;
+    const next = place({ ...params, costPerSeat: stats.cost / stats.seats });
+    if (!isBetterLayout(summarizeLayout(next), stats, 'costPerSeat')) break;
+    best = next;
+  }
+  return addWallFurniture(best, polygon, holes, scale, furnitureTypes, options);
+}
+
+/**
+ * Same as generateLayout, but also runs the greedy scan on the same room so the
+ * gain of the optimised packing can be shown next to the result.
+ */
+export function generateLayoutWithReport(
+  polygon: Point[],
+  holes: Point[][],
+  scale: number,
+  pattern: LayoutPattern,
+  furnitureTypes: FurnitureSet[],
+  aisleGap: number,
+  options: LayoutOptions = {}
+): { items: PlacedItem[]; report: PackingReport } {
+  const strategy = options.packing ?? 'greedy';
+  let items = generateLayout(polygon, holes, scale, pattern, furnitureTypes, aisleGap, options);
+  const baselineItems = strategy === 'greedy'
+    ? items
+    : generateLayout(polygon, holes, scale, pattern, furnitureTypes, aisleGap, { ...options, packing: 'greedy' });
+
+  // Rows are optimised one at a time, so in rare shapes the greedy scan can still win overall;
+  // never hand back something worse than the baseline.
+  if (isBetterLayout(summarizeLayout(baselineItems), summarizeLayout(items), strategy)) {
+    items = baselineItems;
+  }
+
+  // What ordering more of the types that ran out could gain
+  const unlimited = getStockLimitHits(items, furnitureTypes, options.arrangement).length > 0
+    ? summarizeLayout(generateLayout(
+        polygon, holes, scale, pattern, furnitureTypes.map(t => ({ ...t, maxQuantity: undefined })), aisleGap, options
+      ))
+    : undefined;
+
+  return {
+    items,
+    report: {
+      strategy,
+      optimized: summarizeLayout(items),
+      baseline: summarizeLayout(baselineItems),
+      unlimited
+    }
+  };
+}
+
+export interface HeadcountResult {
+  target: number;
+  achieved: boolean;
+  aisleGap: number; // mm; the widest gap that reaches the target, or the narrowest tried
+  items: PlacedItem[];
+  seats: number;
+  cost: number;
+  shortfall: number; // Seats missing when the target can't be reached
+}
+
+// Non-empty subsets of the enabled types; large catalogs only try single types and the full set
+function getFurnitureMixes(types: FurnitureSet[]): FurnitureSet[][] {
+  if (types.length > 5) {
+    return [types, ...types.map(t => [t])];
+  }
+  const mixes: FurnitureSet[][] = [];
+  for (let mask = (1 << types.length) - 1; mask > 0; mask--) {
+    mixes.push(types.filter((_, i) => mask & (1 << i)));
+  }
+  return mixes;
+}
+
+/**
+ * Finds the most spacious layout that still seats `target` people.
+ * Aisle gaps are tried from widest to narrowest with every enabled type; at the first gap that
+ * reaches the target, the cheapest furniture mix that still reaches it is kept.
+ * Each gap uses the side gap and wall clearance of the preset spacing closest to it.
+ * If even the narrowest gap falls short, the densest layout is returned with the shortfall.
+ */
+export function findLayoutForHeadcount(
+  polygon: Point[],
+  holes: Point[][],
+  scale: number,
+  furnitureTypes: FurnitureSet[],
+  target: number,
+  spacings: LayoutSpacing[],
+  options: LayoutOptions = {},
+  onStep?: (completed: number, total: number) => void
+): HeadcountResult {
+  const { minAisleGap, maxAisleGap, step } = HEADCOUNT_SEARCH;
+  const types = furnitureTypes.filter(t => t.enabled !== false);
+  // Wall furniture is added once to the chosen layout rather than to every candidate
+  const layoutOptions: LayoutOptions = {
+    ...options, packing: options.packing === 'costPerSeat' ? 'costPerSeat' : 'seats', wallFurniture: undefined
+  };
+  const withWall = (items: PlacedItem[]) => addWallFurniture(items, polygon, holes, scale, types, options);
+  const gaps: number[] = [];
+  for (let gap = maxAisleGap; gap >= minAisleGap; gap -= step) gaps.push(gap);
+
+  // Without a clearance every row would start a whole aisle gap from the wall
+  const marginsFor = (gap: number): LayoutOptions => {
+    const closest = spacings.reduce<LayoutSpacing | null>(
+      (best, s) => !best || Math.abs(s.aisleGap - gap) < Math.abs(best.aisleGap - gap) ? s : best,
+      null
+    );
+    return {
+      sideGap: closest?.sideGap ?? options.sideGap,
+      wallClearance: closest?.wallClearance ?? options.wallClearance
+    };
+  };
+
+  const run = (gap: number, mix: FurnitureSet[]) =>
+    generateLayout(polygon, holes, scale, 'standard', mix, gap, { ...layoutOptions, ...marginsFor(gap) });
+
+  let densest: { gap: number; items: PlacedItem[] } = { gap: minAisleGap, items: [] };
+
+  for (let g = 0; g < gaps.length; g++) {
+    onStep?.(g, gaps.length);
+    const gap = gaps[g];
+    const items = run(gap, types);
+    if (countSeats(items) > countSeats(densest.items)) densest = { gap, items };
+    if (countSeats(items) < target) continue;
+
+    // Reached at this gap: look for a cheaper mix that still reaches it
+    let best = items;
+    getFurnitureMixes(types).slice(1).forEach(mix => {
+      const candidate = run(gap, mix);
+      if (countSeats(candidate) >= target && summarizeLayout(candidate).cost < summarizeLayout(best).cost) {
+        best = candidate;
+      }
+    });
+
+    const chosen = withWall(best);
+    return { target, achieved: true, aisleGap: gap, items: chosen, ...summarizeLayout(chosen), shortfall: 0 };
+  }
+
+  const chosen = withWall(densest.items);
+  const stats = summarizeLayout(chosen);
+  return {
+    target,
+    achieved: false,
+    aisleGap: densest.gap,
+    items: chosen,
+    ...stats,
+    shortfall: Math.max(0, target - stats.seats)
+  };
+}
+
+export interface BudgetResult {
+  budget: number; // JPY, tax included
+  aisleGap: number; // mm
+  items: PlacedItem[];
+  seats: number;
+  cost: number; // Before tax
+  totalWithTax: number;
+  remaining: number; // Budget left after the tax-inclusive total
+  feasible: boolean; // False when the wall units every layout needs already exceed the budget
+  minimumWithTax: number; // Cheapest candidate's tax-inclusive total; if infeasible, its wall units
+}
+
+/**
+ * Keeps the subset of a layout's items with the most seats whose tax-inclusive total fits the budget.
+ * Items are taken best seats-per-yen first (in placement order within a type),
+ * then any cheaper item that still fits tops up the remainder.
+ */
+function trimToBudget(items: PlacedItem[], budget: number): PlacedItem[] {
+  const value = (item: PlacedItem) => getSeatCount(item) / Math.max(1, getItemCost(item));
+  // Wheelchair workstations are taken first, so they are only dropped when the budget can't
+  // cover them
+  const ranked = items
+    .map((item, order) => ({ item, order }))
+    .sort((a, b) => Number(!!b.item.accessible) - Number(!!a.item.accessible) || value(b.item) - value(a.item) || a.order - b.order);
+
+  const kept: { item: PlacedItem; order: number }[] = [];
+  let cost = 0;
+  ranked.forEach(entry => {
+    const itemCost = getItemCost(entry.item);
+    if (withTax(cost + itemCost) <= budget) {
+      kept.push(entry);
+      cost += itemCost;
+    }
+  });
+
+  return kept.sort((a, b) => a.order - b.order).map(e => e.item);
+}
+
+/**
+ * Trims a seating layout to the budget together with the wall furniture it needs. Fewer seats
+ * need fewer per-seat units, so the seating budget is scaled down by the overshoot until both
+ * fit. Fixed-count units are always included, so the total is still over the budget when they
+ * alone exceed it; the caller has to check.
+ */
+function fitToBudget(
+  seating: PlacedItem[], polygon: Point[], holes: Point[][], scale: number,
+  furnitureTypes: FurnitureSet[], budget: number, options: LayoutOptions
+): { items: PlacedItem[]; total: number } {
+  const fit = (limit: number) => {
+    const kept = trimToBudget(seating, limit);
+    const items = addWallFurniture(kept, polygon, holes, scale, furnitureTypes, options);
+    return { items, total: withTax(summarizeLayout(items).cost), seating: kept };
+  };
+
+  let limit = budget;
+  let result = fit(limit);
+  // Once no seating is left, only the fixed-count units remain and nothing more can be trimmed
+  for (let i = 0; result.total > budget && result.seating.length > 0; i++) {
+    // Proportionally at first, which lands close below the budget; then by the whole overshoot,
+    // and always below the seating kept so far, so every pass drops at least one item
+    const seatingTotal = withTax(summarizeLayout(result.seating).cost);
+    limit = i < 5 ? (limit * budget) / result.total : Math.min(limit - (result.total - budget), seatingTotal - 1);
+    result = fit(limit);
+  }
+  return { items: result.items, total: result.total };
+}
+
+/**
+ * Finds the layout with the most seats whose total including tax stays within `budget`.
+ * Every preset spacing and furniture mix is packed for seats and then trimmed to the budget;
+ * on equal seats the wider aisle gap, then the lower cost wins. When not even the required wall
+ * units fit, the result is marked infeasible and has no items.
+ */
+export function findLayoutForBudget(
+  polygon: Point[],
+  holes: Point[][],
+  scale: number,
+  furnitureTypes: FurnitureSet[],
+  budget: number,
+  spacings: LayoutSpacing[],
+  options: LayoutOptions = {},
+  onStep?: (completed: number, total: number) => void
+): BudgetResult {
+  const types = furnitureTypes.filter(t => t.enabled !== false);
+  // Widest first so ties keep the spacious one
+  const sorted = [...spacings].sort((a, b) => b.aisleGap - a.aisleGap);
+  const mixes = getFurnitureMixes(types);
+
+  let best: { gap: number; items: PlacedItem[] } | null = null;
+  let minimumWithTax = Infinity;
+
+  sorted.forEach((spacing, g) => {
+    onStep?.(g, sorted.length);
+    const gap = spacing.aisleGap;
+    const layoutOptions: LayoutOptions = {
+      ...options,
+      packing: 'seats',
+      sideGap: spacing.sideGap ?? options.sideGap,
+      wallClearance: spacing.wallClearance ?? options.wallClearance
+    };
+    mixes.forEach(mix => {
+      const seating = generateLayout(polygon, holes, scale, 'standard', mix, gap, { ...layoutOptions, wallFurniture: undefined });
+      const { items, total } = fitToBudget(seating, polygon, holes, scale, mix, budget, layoutOptions);
+      minimumWithTax = Math.min(minimumWithTax, total);
+      if (total > budget) return;
+      const stats = summarizeLayout(items);
+      if (
+        !best
+        || stats.seats > countSeats(best.items)
+        || (stats.seats === countSeats(best.items) && gap === best.gap && stats.cost < summarizeLayout(best.items).cost)
+      ) {
+        best = { gap, items };
+      }
+    });
+  });
+
+  const chosen: { gap: number; items: PlacedItem[] } = best ?? { gap: sorted[0]?.aisleGap ?? 0, items: [] };
+  const stats = summarizeLayout(chosen.items);
+  const totalWithTax = withTax(stats.cost);
+  return {
+    budget,
+    aisleGap: chosen.gap,
+    items: chosen.items,
+    ...stats,
+    totalWithTax,
+    remaining: budget - totalWithTax,
+    feasible: best !== null,
+    minimumWithTax: Number.isFinite(minimumWithTax) ? minimumWithTax : 0
+  };
+}
+
+// A zone with its preset already resolved to spacings, as sent to the layout worker
+export interface ZoneLayoutJob {
+  zone: LayoutZone;
+  spacing: LayoutSpacing;
+}
+
+/**
+ * Lays out each zone independently with its own spacing, furniture and orientation.
+ * Items must stay inside the room as well as the zone, and zones drawn later keep clear
+ * of furniture already placed for earlier ones (padded by their aisle gap) if they overlap.
+ */
+export function generateZonedLayout(
+  roomPolygon: Point[],
+  holes: Point[][],
+  scale: number,
+  furnitureTypes: FurnitureSet[],
+  jobs: ZoneLayoutJob[],
+  options: LayoutOptions = {}
+): PlacedItem[] {
+  // Wheelchair workstations are planned once for the whole room, not per zone
+  const { accessibility, ...zoneOptions } = options;
+  const { stations, reserved } = accessibility
+    ? getAccessiblePlan(roomPolygon, holes, scale, getSeatingTypes(furnitureTypes, options.arrangement), accessibility)
+    : { stations: [], reserved: [] };
+  const items: PlacedItem[] = [...stations];
+
+  jobs.forEach(({ zone, spacing }) => {
+    if (zone.polygon.length < 3) return;
+    // The zone's own selection decides what is enabled here, not the global toggles.
+    // Stock is shared, so earlier zones use up part of it.
+    const used = countTables(items);
+    const types = furnitureTypes
+      .filter(t => zone.furnitureTypeIds.includes(t.id))
+      .map(t => ({
+        ...t,
+        enabled: true,
+        maxQuantity: t.maxQuantity === undefined ? undefined : t.maxQuantity - (used[t.id] ?? 0)
+      }));
+    if (types.length === 0) return;
+
+    const pad = spacing.aisleGap * scale;
+    const placedObstacles = items.map(item => {
+      const b = getItemBounds(item, scale);
+      return rectToPolygon({ x: b.x - pad, y: b.y - pad, w: b.w + pad * 2, h: b.h + pad * 2 });
+    });
+
+    const zoneItems = generateLayout(
+      zone.polygon,
+      [...holes, ...reserved, ...placedObstacles],
+      scale,
+      zone.pattern,
+      types,
+      spacing.aisleGap,
+      {
+        ...zoneOptions,
+        wallFurniture: undefined,
+        orientation: zone.orientation,
+        sideGap: spacing.sideGap,
+        wallClearance: spacing.wallClearance
+      }
+    ).filter(item => isItemInsidePolygon(item, roomPolygon, scale));
+
+    items.push(...zoneItems.map(item => ({ ...item, zoneId: zone.id })));
+  });
+
+  // Wall furniture serves the whole room, so it is placed once all zones are filled
+  return addWallFurniture(items, roomPolygon, holes, scale, furnitureTypes.filter(t => t.enabled !== false), options);
+}
+
+// Breaks a zoned layout down per zone, in zone order
+export function summarizeZones(items: PlacedItem[], zones: Pick<LayoutZone, 'id' | 'name'>[]): ZoneSummary[] {
+  return zones.map(zone => {
+    const zoneItems = items.filter(item => item.zoneId === zone.id);
+    const counts: Record<string, number> = {};
+    zoneItems.forEach(item => {
+      counts[item.type.name] = (counts[item.type.name] || 0) + getTableCount(item);
+    });
+    return { zoneId: zone.id, name: zone.name, ...summarizeLayout(zoneItems), counts };
+  });
+}
+
+export type LayoutViolationKind = 'outside_room' | 'overlaps_hole' | 'overlaps_item';
+
+export interface LayoutViolation {
+  itemId: string;
+  kind: LayoutViolationKind;
+  holeIndex?: number; // Set for 'overlaps_hole'
+  otherItemId?: string; // Set for 'overlaps_item'; each overlapping pair is reported once
+}
+
+// Items may touch (wall units stand side by side), so outlines are shrunk by this many px
+// before testing two items against each other
+const ITEM_TOUCH_TOLERANCE = 0.5;
+
+// Outline shrunk towards its centre, for overlap tests that should ignore touching edges
+function shrinkOutline(outline: Point[], by: number): Point[] {
+  const cx = outline.reduce((sum, p) => sum + p.x, 0) / outline.length;
+  const cy = outline.reduce((sum, p) => sum + p.y, 0) / outline.length;
+  return outline.map(p => {
+    const d = Math.hypot(p.x - cx, p.y - cy) || 1;
+    const k = Math.max(0, d - by) / d;
+    return { x: cx + (p.x - cx) * k, y: cy + (p.y - cy) * k };
+  });
+}
+
+/**
+ * Checks already placed items against the room and each other: flags every item that leaves
+ * the polygon, overlaps one of the holes (pillars, shafts, ...) or overlaps another item.
+ */
+export function validateLayout(items: PlacedItem[], polygon: Point[], holes: Point[][], scale: number): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  if (polygon.length < 3) return violations;
+
+  items.forEach(item => {
+    if (!isItemInsidePolygon(item, polygon, scale)) {
+      violations.push({ itemId: item.id, kind: 'outside_room' });
+    }
+    holes.forEach((hole, holeIndex) => {
+      if (doesItemOverlapPolygon(item, hole, scale)) {
+        violations.push({ itemId: item.id, kind: 'overlaps_hole', holeIndex });
+      }
+    });
+  });
+
+  const bounds = items.map(item => getItemBounds(item, scale));
+  items.forEach((item, i) => {
+    const a = bounds[i];
+    for (let j = i + 1; j < items.length; j++) {
+      const b = bounds[j];
+      if (a.x >= b.x + b.w || b.x >= a.x + a.w || a.y >= b.y + b.h || b.y >= a.y + a.h) continue;
+      const overlaps = getItemOutlines(items[j], scale).some(outline =>
+        doesItemOverlapPolygon(item, shrinkOutline(outline, ITEM_TOUCH_TOLERANCE), scale)
+      );
+      if (overlaps) violations.push({ itemId: item.id, kind: 'overlaps_item', otherItemId: items[j].id });
+    }
+  });
+
+  return violations;
 }
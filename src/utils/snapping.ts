@@ -0,0 +1,112 @@
+import { Point } from '../services/geminiService';
+import { SnapSettings } from '../constants';
+
+export type SnapKind = 'vertex' | 'edge' | 'angle' | 'grid';
+
+export interface SnapResult {
+  point: Point;
+  kind: SnapKind | null; // null when nothing was close enough
+  // The outline edge snapped onto, or the angle ray from the previous point
+  guide?: [Point, Point];
+  angle?: number; // Degrees relative to the previous segment, for 'angle'
+}
+
+export interface SnapContext {
+  outlines: Point[][]; // Closed outlines whose corners and edges attract (room, holes, zones)
+  path: Point[]; // Points already placed for the shape being drawn
+  scale: number; // pixels per mm
+  tolerance: number; // px within which vertices and edges attract
+  gridOrigin: Point;
+}
+
+// An angle snaps only when the pointer is within this many degrees of it
+const ANGLE_TOLERANCE = 4;
+
+// Closest point to p on segment a-b
+function projectOnSegment(p: Point, a: Point, b: Point): Point {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+// Where the ray from `origin` along `dir` crosses segment a-b, if it does
+function intersectRay(origin: Point, dir: Point, a: Point, b: Point): Point | null {
+  const ex = b.x - a.x;
+  const ey = b.y - a.y;
+  const denom = dir.x * ey - dir.y * ex;
+  if (Math.abs(denom) < 1e-9) return null;
+  const t = ((a.x - origin.x) * ey - (a.y - origin.y) * ex) / denom;
+  const u = ((a.x - origin.x) * dir.y - (a.y - origin.y) * dir.x) / denom;
+  if (t < 0 || u < 0 || u > 1) return null;
+  return { x: origin.x + dir.x * t, y: origin.y + dir.y * t };
+}
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Snaps a pointer position while a shape is drawn. In order of priority: an existing
+ * corner, a point on an outline edge (where the angle ray crosses it, if an angle also
+ * applies), a 15°/45°/90° direction from the previous point with its length on the grid,
+ * and finally the grid itself.
+ */
+export function snapPoint(raw: Point, context: SnapContext, settings: SnapSettings): SnapResult {
+  const { outlines, path, scale, tolerance, gridOrigin } = context;
+  const gridPx = settings.gridMm * scale;
+  const toGrid = (v: number, origin: number) => origin + Math.round((v - origin) / gridPx) * gridPx;
+
+  if (settings.vertices) {
+    const vertices = [...outlines.flat(), ...path.slice(0, -1)];
+    let best: Point | null = null;
+    vertices.forEach(v => {
+      if (dist(v, raw) <= tolerance && (!best || dist(v, raw) < dist(best, raw))) best = v;
+    });
+    if (best) return { point: best, kind: 'vertex' };
+  }
+
+  // Direction from the previous point, turned to the nearest angle step
+  const previous = path[path.length - 1];
+  let ray: { dir: Point; angle: number } | null = null;
+  if (settings.angleStep > 0 && previous && dist(raw, previous) > 0) {
+    const before = path[path.length - 2];
+    const base = before ? Math.atan2(previous.y - before.y, previous.x - before.x) : 0;
+    const relative = (Math.atan2(raw.y - previous.y, raw.x - previous.x) - base) * 180 / Math.PI;
+    const snapped = Math.round(relative / settings.angleStep) * settings.angleStep;
+    if (Math.abs(relative - snapped) <= ANGLE_TOLERANCE) {
+      const a = base + (snapped * Math.PI) / 180;
+      ray = { dir: { x: Math.cos(a), y: Math.sin(a) }, angle: (((snapped % 360) + 540) % 360) - 180 };
+    }
+  }
+
+  if (settings.edges) {
+    const edges: [Point, Point][] = outlines.flatMap(outline =>
+      outline.map((p, i) => [p, outline[(i + 1) % outline.length]] as [Point, Point])
+    );
+    let best: { point: Point; edge: [Point, Point]; d: number } | null = null;
+    edges.forEach(edge => {
+      // On the angle ray where it crosses the edge, otherwise the nearest point of the edge
+      const crossing = ray && previous ? intersectRay(previous, ray.dir, edge[0], edge[1]) : null;
+      const point = crossing && dist(crossing, raw) <= tolerance ? crossing : projectOnSegment(raw, edge[0], edge[1]);
+      const d = dist(point, raw);
+      if (d <= tolerance && (!best || d < best.d)) best = { point, edge, d };
+    });
+    if (best) {
+      const { point, edge } = best;
+      return { point, kind: 'edge', guide: edge };
+    }
+  }
+
+  if (ray && previous) {
+    let length = (raw.x - previous.x) * ray.dir.x + (raw.y - previous.y) * ray.dir.y;
+    if (gridPx > 0) length = Math.round(length / gridPx) * gridPx;
+    const point = { x: previous.x + ray.dir.x * length, y: previous.y + ray.dir.y * length };
+    return { point, kind: 'angle', guide: [previous, point], angle: ray.angle };
+  }
+
+  if (gridPx > 0) {
+    return { point: { x: toGrid(raw.x, gridOrigin.x), y: toGrid(raw.y, gridOrigin.y) }, kind: 'grid' };
+  }
+
+  return { point: raw, kind: null };
+}
@@ -0,0 +1,49 @@
+import { Point } from '../services/geminiService';
+
+export interface SpatialIndex {
+  // Indices of the polygons whose bounding box overlaps the given rectangle
+  query: (x: number, y: number, w: number, h: number) => number[];
+}
+
+/**
+ * Uniform grid over the bounding boxes of a set of polygons (holes, obstacles).
+ * Lets the layout scan test only the few pillars near a desk instead of every hole on the floor.
+ */
+export function createSpatialIndex(polygons: Point[][], cellSize: number): SpatialIndex {
+  const cells = new Map<string, number[]>();
+  const boxes = polygons.map(poly => ({
+    minX: Math.min(...poly.map(p => p.x)),
+    maxX: Math.max(...poly.map(p => p.x)),
+    minY: Math.min(...poly.map(p => p.y)),
+    maxY: Math.max(...poly.map(p => p.y))
+  }));
+  const size = cellSize > 0 ? cellSize : 1;
+  const cellOf = (v: number) => Math.floor(v / size);
+
+  boxes.forEach((b, i) => {
+    if (polygons[i].length === 0) return;
+    for (let cx = cellOf(b.minX); cx <= cellOf(b.maxX); cx++) {
+      for (let cy = cellOf(b.minY); cy <= cellOf(b.maxY); cy++) {
+        const key = `${cx},${cy}`;
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  });
+
+  return {
+    query: (x, y, w, h) => {
+      const found = new Set<number>();
+      for (let cx = cellOf(x); cx <= cellOf(x + w); cx++) {
+        for (let cy = cellOf(y); cy <= cellOf(y + h); cy++) {
+          cells.get(`${cx},${cy}`)?.forEach(i => {
+            const b = boxes[i];
+            if (b.maxX > x && b.minX < x + w && b.maxY > y && b.minY < y + h) found.add(i);
+          });
+        }
+      }
+      return Array.from(found);
+    }
+  };
+}
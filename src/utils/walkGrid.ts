@@ -0,0 +1,288 @@
+import { Point } from '../services/geminiService';
+import { isPointInPolygon, distanceToSegment } from './geometry';
+
+// Walking grid resolution in mm; coarser for very large rooms to bound the cell count
+const WALK_CELL = 100;
+const MAX_CELLS = 250000;
+
+const DIAGONAL = Math.SQRT2;
+
+// An exit opening on the room outline, in plan pixels
+export interface ExitOpening {
+  start: Point;
+  end: Point;
+  width: number; // mm
+}
+
+// Square grid over the room. Cells are walkable when their centre is inside the room
+// and outside every obstacle (holes, furniture footprints, ...).
+export interface WalkGrid {
+  cols: number;
+  rows: number;
+  originX: number;
+  originY: number;
+  cellPx: number;
+  cellMm: number;
+  walkable: Uint8Array;
+  // Cells that narrow a corridor: furniture, holes and walls (but not exit openings)
+  obstacle: Uint8Array;
+}
+
+export function buildWalkGrid(polygon: Point[], obstacles: Point[][], exits: ExitOpening[], scale: number): WalkGrid {
+  const minX = Math.min(...polygon.map(p => p.x));
+  const maxX = Math.max(...polygon.map(p => p.x));
+  const minY = Math.min(...polygon.map(p => p.y));
+  const maxY = Math.max(...polygon.map(p => p.y));
+  const areaMm = ((maxX - minX) / scale) * ((maxY - minY) / scale);
+  const cellMm = Math.max(WALK_CELL, Math.ceil(Math.sqrt(areaMm / MAX_CELLS)));
+  const cellPx = cellMm * scale;
+
+  // Pad the grid so the space just outside an exit opening is part of it
+  const widest = Math.max(0, ...exits.map(e => e.width));
+  const pad = Math.ceil(widest / cellMm) + 2;
+  const cols = Math.ceil((maxX - minX) / cellPx) + pad * 2;
+  const rows = Math.ceil((maxY - minY) / cellPx) + pad * 2;
+  const originX = minX - pad * cellPx;
+  const originY = minY - pad * cellPx;
+
+  const center = (col: number, row: number): Point => ({
+    x: originX + (col + 0.5) * cellPx,
+    y: originY + (row + 0.5) * cellPx
+  });
+
+  const inside = new Uint8Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (isPointInPolygon(center(col, row), polygon)) inside[row * cols + col] = 1;
+    }
+  }
+
+  const walkable = inside.slice();
+  const block = (shape: Point[]) => {
+    const c0 = Math.max(0, Math.floor((Math.min(...shape.map(p => p.x)) - originX) / cellPx));
+    const c1 = Math.min(cols - 1, Math.floor((Math.max(...shape.map(p => p.x)) - originX) / cellPx));
+    const r0 = Math.max(0, Math.floor((Math.min(...shape.map(p => p.y)) - originY) / cellPx));
+    const r1 = Math.min(rows - 1, Math.floor((Math.max(...shape.map(p => p.y)) - originY) / cellPx));
+    for (let row = r0; row <= r1; row++) {
+      for (let col = c0; col <= c1; col++) {
+        if (isPointInPolygon(center(col, row), shape)) walkable[row * cols + col] = 0;
+      }
+    }
+  };
+  obstacles.forEach(block);
+
+  // Outside cells in front of an opening do not narrow the way out; all other outside cells are wall
+  const obstacle = new Uint8Array(cols * rows);
+  for (let i = 0; i < obstacle.length; i++) obstacle[i] = walkable[i] ? 0 : 1;
+  exits.forEach(exit => {
+    const dx = exit.end.x - exit.start.x;
+    const dy = exit.end.y - exit.start.y;
+    const lenSq = dx * dx + dy * dy || 1;
+    const reach = exit.width * scale;
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const i = row * cols + col;
+        if (inside[i]) continue;
+        const p = center(col, row);
+        const t = ((p.x - exit.start.x) * dx + (p.y - exit.start.y) * dy) / lenSq;
+        if (t >= 0 && t <= 1 && distanceToSegment(p, exit.start, exit.end) <= reach) obstacle[i] = 0;
+      }
+    }
+  });
+
+  return { cols, rows, originX, originY, cellPx, cellMm, walkable, obstacle };
+}
+
+// Plan position of a cell centre
+export function getCellCenter(grid: WalkGrid, cell: number): Point {
+  const col = cell % grid.cols;
+  const row = (cell - col) / grid.cols;
+  return { x: grid.originX + (col + 0.5) * grid.cellPx, y: grid.originY + (row + 0.5) * grid.cellPx };
+}
+
+// Index of the cell containing a plan point, or -1 outside the grid
+export function getCellAt(grid: WalkGrid, p: Point): number {
+  const col = Math.floor((p.x - grid.originX) / grid.cellPx);
+  const row = Math.floor((p.y - grid.originY) / grid.cellPx);
+  if (col < 0 || row < 0 || col >= grid.cols || row >= grid.rows) return -1;
+  return row * grid.cols + col;
+}
+
+// Walkable cells right at an exit opening
+export function findExitCells(grid: WalkGrid, exits: ExitOpening[]): number[] {
+  const cells: number[] = [];
+  for (let i = 0; i < grid.walkable.length; i++) {
+    if (!grid.walkable[i]) continue;
+    const p = getCellCenter(grid, i);
+    if (exits.some(o => distanceToSegment(p, o.start, o.end) <= grid.cellPx * 1.5)) cells.push(i);
+  }
+  return cells;
+}
+
+// Two-pass chamfer distance (mm) from every cell to the nearest seed cell
+export function distanceTransform(grid: WalkGrid, isSeed: (i: number) => boolean): Float32Array {
+  const { cols, rows, cellMm } = grid;
+  const dist = new Float32Array(cols * rows);
+  for (let i = 0; i < dist.length; i++) dist[i] = isSeed(i) ? 0 : Infinity;
+
+  const relax = (i: number, col: number, row: number, dc: number, dr: number, cost: number) => {
+    const c = col + dc;
+    const r = row + dr;
+    if (c < 0 || r < 0 || c >= cols || r >= rows) return;
+    const d = dist[r * cols + c] + cost;
+    if (d < dist[i]) dist[i] = d;
+  };
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col;
+      relax(i, col, row, -1, 0, cellMm);
+      relax(i, col, row, -1, -1, cellMm * DIAGONAL);
+      relax(i, col, row, 0, -1, cellMm);
+      relax(i, col, row, 1, -1, cellMm * DIAGONAL);
+    }
+  }
+  for (let row = rows - 1; row >= 0; row--) {
+    for (let col = cols - 1; col >= 0; col--) {
+      const i = row * cols + col;
+      relax(i, col, row, 1, 0, cellMm);
+      relax(i, col, row, 1, 1, cellMm * DIAGONAL);
+      relax(i, col, row, 0, 1, cellMm);
+      relax(i, col, row, -1, 1, cellMm * DIAGONAL);
+    }
+  }
+  return dist;
+}
+
+/**
+ * Cells a person can pass while keeping `width` mm clear: every cell covered by a circle of
+ * that diameter which fits between the obstacles (a morphological opening of the free space).
+ */
+export function corridorMask(grid: WalkGrid, clearance: Float32Array, width: number): Uint8Array {
+  const radius = width / 2;
+  const centers = distanceTransform(grid, i => grid.walkable[i] === 1 && clearance[i] - grid.cellMm / 2 >= radius);
+  const mask = new Uint8Array(grid.walkable.length);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = grid.walkable[i] && centers[i] <= radius ? 1 : 0;
+  }
+  return mask;
+}
+
+// Min-heap of cell indices ordered by their current distance
+function createHeap(dist: Float32Array) {
+  const heap: number[] = [];
+  const swap = (a: number, b: number) => { [heap[a], heap[b]] = [heap[b], heap[a]]; };
+  return {
+    get size() { return heap.length; },
+    push(i: number) {
+      heap.push(i);
+      let k = heap.length - 1;
+      while (k > 0) {
+        const parent = (k - 1) >> 1;
+        if (dist[heap[parent]] <= dist[heap[k]]) break;
+        swap(k, parent);
+        k = parent;
+      }
+    },
+    pop(): number {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        heap[0] = last;
+        let k = 0;
+        for (;;) {
+          const l = k * 2 + 1;
+          const r = l + 1;
+          let m = k;
+          if (l < heap.length && dist[heap[l]] < dist[heap[m]]) m = l;
+          if (r < heap.length && dist[heap[r]] < dist[heap[m]]) m = r;
+          if (m === k) break;
+          swap(k, m);
+          k = m;
+        }
+      }
+      return top;
+    }
+  };
+}
+
+// Shortest walking distance (mm) from the exit cells to every cell of `mask`, with back pointers
+export function findRoutes(grid: WalkGrid, mask: Uint8Array, exitCells: number[]) {
+  const { cols, rows, cellMm } = grid;
+  const dist = new Float32Array(cols * rows).fill(Infinity);
+  const parent = new Int32Array(cols * rows).fill(-1);
+  const heap = createHeap(dist);
+
+  exitCells.forEach(i => {
+    if (!mask[i]) return;
+    dist[i] = 0;
+    heap.push(i);
+  });
+
+  while (heap.size > 0) {
+    const i = heap.pop();
+    const col = i % cols;
+    const row = (i - col) / cols;
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        if (dr === 0 && dc === 0) continue;
+        const c = col + dc;
+        const r = row + dr;
+        if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+        const j = r * cols + c;
+        if (!mask[j]) continue;
+        // No cutting corners past a desk or pillar
+        if (dr !== 0 && dc !== 0 && (!mask[row * cols + c] || !mask[r * cols + col])) continue;
+        const d = dist[i] + (dr !== 0 && dc !== 0 ? cellMm * DIAGONAL : cellMm);
+        if (d < dist[j]) {
+          dist[j] = d;
+          parent[j] = i;
+          heap.push(j);
+        }
+      }
+    }
+  }
+  return { dist, parent };
+}
+
+// Cells of `mask` connected to an exit cell
+export function floodFill(grid: WalkGrid, mask: Uint8Array, exitCells: number[]): Uint8Array {
+  const { cols, rows } = grid;
+  const reached = new Uint8Array(cols * rows);
+  const queue = exitCells.filter(i => mask[i]);
+  queue.forEach(i => { reached[i] = 1; });
+  for (let k = 0; k < queue.length; k++) {
+    const i = queue[k];
+    const col = i % cols;
+    const row = (i - col) / cols;
+    const visit = (c: number, r: number) => {
+      if (c < 0 || r < 0 || c >= cols || r >= rows) return;
+      const j = r * cols + c;
+      if (!mask[j] || reached[j]) return;
+      reached[j] = 1;
+      queue.push(j);
+    };
+    visit(col - 1, row);
+    visit(col + 1, row);
+    visit(col, row - 1);
+    visit(col, row + 1);
+  }
+  return reached;
+}
+
+// Follows back pointers to an exit and returns the route as plan points from `start`, straight runs merged
+export function tracePath(grid: WalkGrid, parent: Int32Array, from: number, start: Point): Point[] {
+  const cells: number[] = [];
+  for (let i = from; i !== -1; i = parent[i]) cells.push(i);
+
+  const points: Point[] = [start];
+  let lastDir = '';
+  cells.forEach((cell, k) => {
+    const p = getCellCenter(grid, cell);
+    const next = cells[k + 1];
+    const dir = next === undefined ? 'end' : String(next - cell);
+    if (dir !== lastDir) points.push(p);
+    lastDir = dir;
+  });
+  return points;
+}
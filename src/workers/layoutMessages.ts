@@ -0,0 +1,59 @@
+import { Point } from '../services/geminiService';
+import { EgressRules, FurnitureSet, LayoutPattern } from '../constants';
+import { BudgetResult, HeadcountResult, LayoutOptions, LayoutSpacing, PackingReport, PlacedItem, ZoneLayoutJob } from '../utils/layoutEngine';
+import { EgressReport, RoomExit } from '../utils/egress';
+
+// Message protocol between the main thread and layoutWorker.ts
+
+export interface LayoutPatternJob extends LayoutSpacing {
+  pattern: LayoutPattern; // Preset id
+}
+
+export interface LayoutPatternResult {
+  items: PlacedItem[];
+  report: PackingReport;
+}
+
+// Main thread -> worker
+export interface GenerateLayoutRequest {
+  type: 'generate';
+  polygon: Point[];
+  holes: Point[][];
+  scale: number; // pixels per mm
+  furnitureTypes: FurnitureSet[];
+  patterns: LayoutPatternJob[];
+  options: LayoutOptions;
+  // When set, also search for the most spacious layout seating this many people
+  headcountTarget?: number;
+  // When set (JPY, tax included), also search for the most seats within this budget
+  budget?: number;
+  // When set, also lay out each zone with its own preset and furniture
+  zones?: ZoneLayoutJob[];
+}
+
+// Main thread -> worker: walking routes of a finished (or hand-edited) layout
+export interface AnalyzeEgressRequest {
+  type: 'egress';
+  items: PlacedItem[];
+  polygon: Point[];
+  holes: Point[][];
+  exits: RoomExit[];
+  scale: number; // pixels per mm
+  rules: EgressRules;
+}
+
+export type LayoutWorkerRequest = GenerateLayoutRequest | AnalyzeEgressRequest;
+
+// What the worker is computing: one of the patterns, or one of the searches
+export type LayoutJobStep = LayoutPattern | 'headcount' | 'budget' | 'zones';
+
+// Worker -> main thread
+export type LayoutWorkerResponse =
+  | { type: 'progress'; step: LayoutJobStep; completed: number; total: number }
+  | { type: 'result'; pattern: LayoutPattern; result: LayoutPatternResult }
+  | { type: 'headcount'; result: HeadcountResult }
+  | { type: 'budget'; result: BudgetResult }
+  | { type: 'zones'; items: PlacedItem[] }
+  | { type: 'egress'; report: EgressReport | null }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
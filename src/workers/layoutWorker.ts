@@ -0,0 +1,91 @@
+/// <reference lib="webworker" />
+import { generateLayoutWithReport, findLayoutForHeadcount, findLayoutForBudget, generateZonedLayout } from '../utils/layoutEngine';
+import { analyzeEgress } from '../utils/egress';
+import { LayoutWorkerRequest, LayoutWorkerResponse } from './layoutMessages';
+
+// Runs generateLayout off the main thread, one pattern at a time, and the egress check of a
+// finished layout. Cancellation is done by the caller terminating the worker.
+
+const post = (message: LayoutWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<LayoutWorkerRequest>) => {
+  const request = e.data;
+  if (request.type === 'egress') {
+    try {
+      const { items, polygon, holes, exits, scale, rules } = request;
+      post({ type: 'egress', report: analyzeEgress(items, polygon, holes, exits, scale, rules) });
+    } catch (error) {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  const { polygon, holes, scale, furnitureTypes, patterns, options, headcountTarget, budget, zones } = request;
+  const hasZones = !!zones && zones.length > 0;
+  // Each search (and the zoned layout) counts as one extra step
+  const total = patterns.length + (headcountTarget ? 1 : 0) + (budget ? 1 : 0) + (hasZones ? 1 : 0);
+
+  try {
+    patterns.forEach((job, i) => {
+      post({ type: 'progress', step: job.pattern, completed: i, total });
+      const result = generateLayoutWithReport(
+        polygon,
+        holes,
+        scale,
+        job.pattern,
+        furnitureTypes,
+        job.aisleGap,
+        { ...options, sideGap: job.sideGap, wallClearance: job.wallClearance }
+      );
+      post({ type: 'result', pattern: job.pattern, result });
+    });
+
+    if (headcountTarget) {
+      const result = findLayoutForHeadcount(
+        polygon,
+        holes,
+        scale,
+        furnitureTypes,
+        headcountTarget,
+        patterns,
+        options,
+        (completed, steps) => post({
+          type: 'progress',
+          step: 'headcount',
+          completed: patterns.length + completed / steps,
+          total
+        })
+      );
+      post({ type: 'headcount', result });
+    }
+
+    if (budget) {
+      const done = patterns.length + (headcountTarget ? 1 : 0);
+      const result = findLayoutForBudget(
+        polygon,
+        holes,
+        scale,
+        furnitureTypes,
+        budget,
+        patterns,
+        options,
+        (completed, steps) => post({
+          type: 'progress',
+          step: 'budget',
+          completed: done + completed / steps,
+          total
+        })
+      );
+      post({ type: 'budget', result });
+    }
+
+    if (hasZones) {
+      post({ type: 'progress', step: 'zones', completed: total - 1, total });
+      const items = generateZonedLayout(polygon, holes, scale, furnitureTypes, zones, options);
+      post({ type: 'zones', items });
+    }
+    post({ type: 'done' });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};